@@ -0,0 +1,546 @@
+// scripts/mock-backend.mjs
+//
+// Mock AKSOL backend for offline development, demos and automated tests.
+// Implements the /aksol endpoints the dApp calls with the same response
+// shapes as the real backend, plus switchable failure scenarios.
+//
+//   npm run mock:backend                          # listens on :8080
+//   MOCK_SCENARIO=broadcast npm run mock:backend  # taxed send returns a sig
+//
+// Scenarios (default from MOCK_SCENARIO, switchable at runtime):
+//   ok         unsigned base64 transactions for the wallet to sign
+//   broadcast  taxed send answers with an "already broadcast" signature
+//   multi      taxed send splits into two transactions (net, then tax)
+//   http500    every /aksol call fails with HTTP 500
+//   malformed  every /aksol call returns a body that is not JSON
+//   not-ok     every /aksol call returns { ok: false, error }
+//   slow       every /aksol call stalls for MOCK_SLOW_MS (default 45s)
+//
+// Taxed sends move the SPL mint named in the request from the sender's
+// associated token account. The tax wallets' token accounts must already
+// exist; the recipient's is created (idempotently) in the same transaction.
+//
+// Sign-In With Solana: /aksol/auth/nonce hands out a single-use nonce,
+// /aksol/auth/verify checks the signed sign-in message and returns a bearer
+// token, /aksol/auth/logout revokes it. The taxed send, 0% purchase and
+// storefront endpoints need a session (MOCK_REQUIRE_AUTH=0 turns that off):
+// no token is a 401, an unknown or expired one a 401 with
+// `WWW-Authenticate: Bearer error="invalid_token"`, and a session for another
+// wallet than `fromPubkey`, or for another cluster than the request's, a
+// 403. Requests with `offline: true` build an unsigned transaction for
+// another signer and only need a session on the right cluster. Sessions last
+// MOCK_SESSION_TTL_S seconds (default one hour) and live in memory only.
+//
+// Switch scenarios without restarting:
+//   curl -XPOST localhost:8080/__mock/scenario -d '{"scenario":"http500"}'
+// or per request with an `X-Mock-Scenario: http500` header.
+import http from "node:http";
+import { createPublicKey, randomBytes, verify } from "node:crypto";
+import {
+  Keypair,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+} from "@solana/web3.js";
+
+const PORT = Number(process.env.PORT ?? 8080);
+const SLOW_MS = Number(process.env.MOCK_SLOW_MS ?? 45_000);
+const TAX_BPS = Number(process.env.MOCK_TAX_BPS ?? 300);
+const REQUIRE_AUTH = process.env.MOCK_REQUIRE_AUTH !== "0";
+const SESSION_TTL_MS = Number(process.env.MOCK_SESSION_TTL_S ?? 3_600) * 1000;
+const NONCE_TTL_MS = 5 * 60_000;
+
+const SCENARIOS = [
+  "ok",
+  "broadcast",
+  "multi",
+  "http500",
+  "malformed",
+  "not-ok",
+  "slow",
+];
+let scenario = process.env.MOCK_SCENARIO ?? "ok";
+
+// Where the mock fetches a recent blockhash so built transactions can really
+// be signed and sent. Without network access a random blockhash is used: the
+// wallet can still sign, but the cluster will reject the send.
+const RPC_BY_CLUSTER = {
+  devnet: process.env.VITE_SOLANA_DEVNET_RPC ?? "https://api.devnet.solana.com",
+  "mainnet-beta":
+    process.env.VITE_SOLANA_MAINNET_RPC ?? "https://api.mainnet-beta.solana.com",
+  localnet: process.env.VITE_SOLANA_LOCALNET_RPC ?? "http://127.0.0.1:8899",
+};
+
+// Tax destinations and the 0% route wallet. Set real addresses through env to
+// move funds somewhere meaningful; otherwise throwaway keys are generated.
+const walletFromEnv = (name) =>
+  process.env[name]
+    ? new PublicKey(process.env[name])
+    : Keypair.generate().publicKey;
+
+const TAX_WALLETS = [
+  walletFromEnv("MOCK_BUYBACK_WALLET"),
+  walletFromEnv("MOCK_LIQUIDITY_WALLET"),
+  walletFromEnv("MOCK_STAKING_WALLET"),
+];
+const ZERO_ROUTE_WALLET = walletFromEnv("MOCK_ZERO_ROUTE_WALLET");
+
+const TOKEN_PROGRAM_ID = new PublicKey(
+  "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA"
+);
+const ASSOCIATED_TOKEN_PROGRAM_ID = new PublicKey(
+  "ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL"
+);
+
+const BASE58 = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+
+function fromBase58(text) {
+  let n = 0n;
+  for (const char of text) {
+    const digit = BASE58.indexOf(char);
+    if (digit < 0) throw new Error("invalid base58");
+    n = n * 58n + BigInt(digit);
+  }
+  const hex = n === 0n ? "" : n.toString(16);
+  const body = Buffer.from(hex.length % 2 ? `0${hex}` : hex, "hex");
+  const zeros = text.length - text.replace(/^1+/, "").length;
+  return Buffer.concat([Buffer.alloc(zeros), body]);
+}
+
+function toBase58(bytes) {
+  let n = BigInt(`0x${Buffer.from(bytes).toString("hex") || "0"}`);
+  let out = "";
+  while (n > 0n) {
+    out = BASE58[Number(n % 58n)] + out;
+    n /= 58n;
+  }
+  for (const b of bytes) {
+    if (b !== 0) break;
+    out = `1${out}`;
+  }
+  return out;
+}
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function rpc(cluster, method, params) {
+  const url = RPC_BY_CLUSTER[cluster] ?? RPC_BY_CLUSTER.devnet;
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ jsonrpc: "2.0", id: 1, method, params }),
+    signal: AbortSignal.timeout(3_000),
+  });
+  return (await res.json())?.result;
+}
+
+async function latestBlockhash(cluster) {
+  try {
+    const result = await rpc(cluster, "getLatestBlockhash", [
+      { commitment: "confirmed" },
+    ]);
+    if (result?.value?.blockhash) {
+      return result.value;
+    }
+  } catch {
+    // fall through to the offline blockhash
+  }
+  return { blockhash: toBase58(randomBytes(32)), lastValidBlockHeight: 0 };
+}
+
+// SPL Token or Token-2022, whichever owns the mint. Offline, assume SPL Token.
+async function mintProgram(cluster, mint) {
+  try {
+    const result = await rpc(cluster, "getAccountInfo", [
+      mint.toBase58(),
+      { encoding: "base64", dataSlice: { offset: 0, length: 0 } },
+    ]);
+    if (result?.value?.owner) return new PublicKey(result.value.owner);
+  } catch {
+    // fall through
+  }
+  return TOKEN_PROGRAM_ID;
+}
+
+function associatedTokenAddress(owner, mint, tokenProgram) {
+  return PublicKey.findProgramAddressSync(
+    [owner.toBuffer(), tokenProgram.toBuffer(), mint.toBuffer()],
+    ASSOCIATED_TOKEN_PROGRAM_ID
+  )[0];
+}
+
+function createAssociatedTokenAccountIdempotent(payer, owner, mint, tokenProgram) {
+  return new TransactionInstruction({
+    programId: ASSOCIATED_TOKEN_PROGRAM_ID,
+    keys: [
+      { pubkey: payer, isSigner: true, isWritable: true },
+      {
+        pubkey: associatedTokenAddress(owner, mint, tokenProgram),
+        isSigner: false,
+        isWritable: true,
+      },
+      { pubkey: owner, isSigner: false, isWritable: false },
+      { pubkey: mint, isSigner: false, isWritable: false },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+      { pubkey: tokenProgram, isSigner: false, isWritable: false },
+    ],
+    data: Buffer.from([1]),
+  });
+}
+
+function transferChecked(token, owner, to, amount) {
+  const data = Buffer.alloc(10);
+  data[0] = 12;
+  data.writeBigUInt64LE(amount, 1);
+  data[9] = token.decimals;
+  return new TransactionInstruction({
+    programId: token.program,
+    keys: [
+      {
+        pubkey: associatedTokenAddress(owner, token.mint, token.program),
+        isSigner: false,
+        isWritable: true,
+      },
+      { pubkey: token.mint, isSigner: false, isWritable: false },
+      {
+        pubkey: associatedTokenAddress(to, token.mint, token.program),
+        isSigner: false,
+        isWritable: true,
+      },
+      { pubkey: owner, isSigner: true, isWritable: false },
+    ],
+    data,
+  });
+}
+
+function toLamports(amountUi) {
+  return Math.round(Number(amountUi) * LAMPORTS_PER_SOL);
+}
+
+// One unsigned transaction per group of instructions, all on the same
+// blockhash.
+async function buildTransactions(cluster, feePayer, groups) {
+  const { blockhash, lastValidBlockHeight } = await latestBlockhash(cluster);
+  const transactions = groups.map((instructions) =>
+    new Transaction({ feePayer, blockhash, lastValidBlockHeight })
+      .add(...instructions)
+      .serialize({ requireAllSignatures: false, verifySignatures: false })
+      .toString("base64")
+  );
+  return { transactions, lastValidBlockHeight };
+}
+
+async function buildTransaction(cluster, feePayer, instructions) {
+  const { transactions, lastValidBlockHeight } = await buildTransactions(
+    cluster,
+    feePayer,
+    [instructions]
+  );
+  return { transaction: transactions[0], lastValidBlockHeight };
+}
+
+// ---------- Sign-In With Solana ----------
+
+const nonces = new Map(); // nonce -> { address, chainId, expiresAt }
+const sessions = new Map(); // token -> { address, chainId, expiresAt }
+
+// Chain IDs the sign-in message uses for each cluster.
+const CHAIN_IDS = {
+  "mainnet-beta": "mainnet",
+  devnet: "devnet",
+  localnet: "localnet",
+};
+
+// DER prefix that turns a raw 32-byte ed25519 key into an SPKI key.
+const ED25519_SPKI_PREFIX = Buffer.from("302a300506032b6570032100", "hex");
+
+function verifyEd25519(address, message, signature) {
+  const key = createPublicKey({
+    key: Buffer.concat([ED25519_SPKI_PREFIX, new PublicKey(address).toBuffer()]),
+    format: "der",
+    type: "spki",
+  });
+  return verify(null, Buffer.from(message, "utf8"), key, signature);
+}
+
+// Fields of the SIWS / EIP-4361 style message the dApp builds.
+function parseSignInMessage(message) {
+  const lines = message.split("\n");
+  const header = lines[0]?.match(
+    /^(.+) wants you to sign in with your Solana account:$/
+  );
+  if (!header) throw new Error("not a sign-in message");
+  const fields = { domain: header[1], address: lines[1] };
+  for (const line of lines.slice(2)) {
+    const field = line.match(/^([A-Za-z ]+): (.+)$/);
+    if (field) fields[field[1]] = field[2];
+  }
+  return fields;
+}
+
+function bearerToken(req) {
+  return req.headers.authorization?.match(/^Bearer (.+)$/)?.[1] ?? null;
+}
+
+function sessionFor(req) {
+  const token = bearerToken(req);
+  const session = token ? sessions.get(token) : null;
+  if (!session) return null;
+  if (session.expiresAt <= Date.now()) {
+    sessions.delete(token);
+    return null;
+  }
+  return { token, ...session };
+}
+
+// Endpoints that act on behalf of `fromPubkey`.
+const AUTHENTICATED = new Set([
+  "/aksol/send-taxed-tx",
+  "/aksol/zero-percent-purchase",
+  "/aksol/storefront-purchase",
+]);
+
+// Why the request may not act for `body.fromPubkey`, or null if it may.
+function authFailure(req, body) {
+  const session = sessionFor(req);
+  if (!session) {
+    return bearerToken(req)
+      ? {
+          status: 401,
+          error: "session expired or revoked",
+          headers: { "WWW-Authenticate": 'Bearer error="invalid_token"' },
+        }
+      : {
+          status: 401,
+          error: "sign in with your wallet first",
+          headers: { "WWW-Authenticate": "Bearer" },
+        };
+  }
+  const chainId = CHAIN_IDS[body.cluster ?? "devnet"];
+  if (session.chainId !== chainId) {
+    return { status: 403, error: `signed in on ${session.chainId}, not ${chainId}` };
+  }
+  if (session.address !== body.fromPubkey && !body.offline) {
+    return { status: 403, error: "signed in as a different wallet than fromPubkey" };
+  }
+  return null;
+}
+
+// ---------- Endpoint handlers ----------
+
+const handlers = {
+  "/aksol/status": async (body) => ({
+    ok: true,
+    cluster: body.cluster ?? "devnet",
+    backendVersion: "mock-1.0.0",
+    solanaVersion: "mock",
+    mock: true,
+    scenario,
+    taxBps: TAX_BPS,
+    // Optional, so the status card can compare them with the app's config.
+    programId: process.env.MOCK_PROGRAM_ID,
+    mint: process.env.MOCK_MINT,
+    configPda: process.env.MOCK_CONFIG_PDA,
+  }),
+
+  "/aksol/send-taxed-tx": async (body, activeScenario) => {
+    const from = new PublicKey(body.fromPubkey);
+    const to = new PublicKey(body.toPubkey);
+    if (!body.mint || !body.amountRaw) {
+      throw new Error("mint and amountRaw are required");
+    }
+    const mint = new PublicKey(body.mint);
+    const gross = BigInt(body.amountRaw);
+    const decimals = Number(body.decimals);
+
+    // An offline build goes back unsigned to whoever signs it.
+    if (activeScenario === "broadcast" && !body.offline) {
+      return { ok: true, signature: toBase58(randomBytes(64)) };
+    }
+
+    const token = {
+      mint,
+      decimals,
+      program: await mintProgram(body.cluster, mint),
+    };
+    // Same split as the on-chain program: tax = gross * bps, split evenly
+    // across the three destinations with any remainder going to the first.
+    const tax = (gross * BigInt(TAX_BPS)) / 10_000n;
+    const count = BigInt(TAX_WALLETS.length);
+    const share = tax / count;
+    const net = [
+      createAssociatedTokenAccountIdempotent(from, to, mint, token.program),
+      transferChecked(token, from, to, gross - tax),
+    ];
+    const taxes = TAX_WALLETS.map((wallet, i) => ({
+      wallet,
+      amount: i === 0 ? tax - share * (count - 1n) : share,
+    }))
+      .filter(({ amount }) => amount > 0n)
+      .map(({ wallet, amount }) => transferChecked(token, from, wallet, amount));
+
+    if (activeScenario === "multi") {
+      return {
+        ok: true,
+        ...(await buildTransactions(body.cluster, from, [net, taxes])),
+      };
+    }
+    return {
+      ok: true,
+      ...(await buildTransaction(body.cluster, from, [...net, ...taxes])),
+    };
+  },
+
+  "/aksol/zero-percent-purchase": async (body) => {
+    const from = new PublicKey(body.fromPubkey);
+    const transfer = SystemProgram.transfer({
+      fromPubkey: from,
+      toPubkey: ZERO_ROUTE_WALLET,
+      lamports: toLamports(body.amountUi),
+    });
+    return { ok: true, ...(await buildTransaction(body.cluster, from, [transfer])) };
+  },
+
+  "/aksol/storefront-purchase": async (body) => {
+    console.log("storefront order:", body);
+    return { ok: true, orderId: `mock-${Date.now().toString(36)}` };
+  },
+
+  "/aksol/auth/nonce": async (body) => {
+    const address = new PublicKey(body.address).toBase58();
+    const chainId = CHAIN_IDS[body.cluster ?? "devnet"];
+    if (!chainId) throw new Error(`unknown cluster ${body.cluster}`);
+    const nonce = randomBytes(16).toString("hex");
+    nonces.set(nonce, { address, chainId, expiresAt: Date.now() + NONCE_TTL_MS });
+    return { ok: true, nonce };
+  },
+
+  "/aksol/auth/verify": async (body, _scenario, req) => {
+    const fields = parseSignInMessage(String(body.message ?? ""));
+    const issued = nonces.get(fields.Nonce);
+    nonces.delete(fields.Nonce);
+    if (!issued || issued.expiresAt <= Date.now()) {
+      throw new Error("unknown or expired nonce");
+    }
+    if (fields.address !== body.address || issued.address !== body.address) {
+      throw new Error("message was not issued for this address");
+    }
+    if (fields["Chain ID"] !== issued.chainId) {
+      throw new Error(`message is for ${fields["Chain ID"]}, not ${issued.chainId}`);
+    }
+    const origin = req.headers.origin;
+    if (origin && new URL(origin).host !== fields.domain) {
+      throw new Error(`message is for ${fields.domain}, not ${origin}`);
+    }
+    if (!(Date.parse(fields["Expiration Time"]) > Date.now())) {
+      throw new Error("sign-in message has expired");
+    }
+    if (!verifyEd25519(body.address, body.message, fromBase58(body.signature))) {
+      throw new Error("signature does not match the address");
+    }
+    const token = randomBytes(32).toString("hex");
+    const expiresAt = Date.now() + SESSION_TTL_MS;
+    sessions.set(token, { address: body.address, chainId: issued.chainId, expiresAt });
+    console.log(`signed in ${body.address}`);
+    // ISO 8601, as the dApp expects.
+    return { ok: true, token, expiresAt: new Date(expiresAt).toISOString() };
+  },
+
+  "/aksol/auth/logout": async (_body, _scenario, req) => {
+    const session = sessionFor(req);
+    if (session) sessions.delete(session.token);
+    return { ok: true };
+  },
+};
+
+// ---------- HTTP plumbing ----------
+
+function send(res, status, body, headers = {}) {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+    // A bare "*" does not cover Authorization.
+    "Access-Control-Allow-Headers": "*, Authorization",
+    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+    // Lets the dApp tell a revoked session from a missing one.
+    "Access-Control-Expose-Headers": "WWW-Authenticate",
+    ...headers,
+  });
+  res.end(typeof body === "string" ? body : JSON.stringify(body));
+}
+
+async function readJson(req) {
+  let raw = "";
+  for await (const chunk of req) raw += chunk;
+  return raw ? JSON.parse(raw) : {};
+}
+
+const server = http.createServer(async (req, res) => {
+  const path = new URL(req.url, "http://localhost").pathname;
+
+  if (req.method === "OPTIONS") {
+    send(res, 204, "");
+    return;
+  }
+
+  if (path === "/__mock") {
+    send(res, 200, { scenario, scenarios: SCENARIOS });
+    return;
+  }
+
+  if (path === "/__mock/scenario" && req.method === "POST") {
+    const body = await readJson(req).catch(() => ({}));
+    if (!SCENARIOS.includes(body.scenario)) {
+      send(res, 400, { ok: false, error: `unknown scenario`, scenarios: SCENARIOS });
+      return;
+    }
+    scenario = body.scenario;
+    console.log(`scenario → ${scenario}`);
+    send(res, 200, { ok: true, scenario });
+    return;
+  }
+
+  const handler = handlers[path];
+  if (!handler || req.method !== "POST") {
+    send(res, 404, { ok: false, error: `no mock for ${req.method} ${path}` });
+    return;
+  }
+
+  const activeScenario = req.headers["x-mock-scenario"] ?? scenario;
+  console.log(`${req.method} ${path} [${activeScenario}]`);
+
+  switch (activeScenario) {
+    case "http500":
+      send(res, 500, { ok: false, error: "mock internal server error" });
+      return;
+    case "malformed":
+      send(res, 200, "<html>definitely not json");
+      return;
+    case "not-ok":
+      send(res, 200, { ok: false, error: "mock backend reported a failure" });
+      return;
+    case "slow":
+      await sleep(SLOW_MS);
+      break;
+    default:
+      break;
+  }
+
+  try {
+    const body = await readJson(req);
+    const denied = REQUIRE_AUTH && AUTHENTICATED.has(path) && authFailure(req, body);
+    if (denied) {
+      send(res, denied.status, { ok: false, error: denied.error }, denied.headers);
+      return;
+    }
+    send(res, 200, await handler(body, activeScenario, req));
+  } catch (err) {
+    send(res, 400, { ok: false, error: err.message });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`mock AKSOL backend on http://localhost:${PORT} [${scenario}]`);
+});
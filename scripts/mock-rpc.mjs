@@ -0,0 +1,110 @@
+// scripts/mock-rpc.mjs
+//
+// Stand-in Solana JSON-RPC server for exercising the RPC pool locally.
+// Answers getSlot / getHealth itself and forwards everything else to an
+// upstream cluster (if one is configured).
+//
+//   PORT=8901 MOCK_RPC_LAG=0 node scripts/mock-rpc.mjs
+//   PORT=8902 MOCK_RPC_LAG=200 node scripts/mock-rpc.mjs      # lagging node
+//   PORT=8903 MOCK_RPC_FAIL=500 node scripts/mock-rpc.mjs     # always 500
+//
+// Then point the dApp at them:
+//   VITE_SOLANA_DEVNET_RPC=http://localhost:8901,http://localhost:8902
+import http from "node:http";
+
+const PORT = Number(process.env.PORT ?? 8899);
+const LAG = Number(process.env.MOCK_RPC_LAG ?? 0); // slots behind the "tip"
+const DELAY_MS = Number(process.env.MOCK_RPC_DELAY_MS ?? 0);
+const FAIL_STATUS = process.env.MOCK_RPC_FAIL
+  ? Number(process.env.MOCK_RPC_FAIL)
+  : null;
+const UPSTREAM = process.env.MOCK_RPC_UPSTREAM ?? null;
+
+// Fake tip advances ~2.5 slots per second, like a real cluster.
+const startedAt = Date.now();
+const tipSlot = () => 300_000_000 + Math.floor((Date.now() - startedAt) / 400);
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers": "*",
+  });
+  res.end(typeof body === "string" ? body : JSON.stringify(body));
+}
+
+function answerLocally(request) {
+  switch (request.method) {
+    case "getSlot":
+      return { jsonrpc: "2.0", id: request.id, result: tipSlot() - LAG };
+    case "getHealth":
+      return { jsonrpc: "2.0", id: request.id, result: "ok" };
+    default:
+      return null;
+  }
+}
+
+async function forward(raw) {
+  const upstream = await fetch(UPSTREAM, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: raw,
+  });
+  return { status: upstream.status, body: await upstream.text() };
+}
+
+const server = http.createServer(async (req, res) => {
+  if (req.method === "OPTIONS") {
+    send(res, 204, "");
+    return;
+  }
+
+  let raw = "";
+  for await (const chunk of req) raw += chunk;
+
+  if (DELAY_MS > 0) await sleep(DELAY_MS);
+  if (FAIL_STATUS != null) {
+    send(res, FAIL_STATUS, { error: `mock failure ${FAIL_STATUS}` });
+    return;
+  }
+
+  let request;
+  try {
+    request = JSON.parse(raw);
+  } catch {
+    send(res, 400, { error: "invalid JSON" });
+    return;
+  }
+
+  const local = Array.isArray(request) ? null : answerLocally(request);
+  if (local) {
+    send(res, 200, local);
+    return;
+  }
+
+  if (!UPSTREAM) {
+    send(res, 200, {
+      jsonrpc: "2.0",
+      id: request.id ?? null,
+      error: { code: -32601, message: "Method not available on mock RPC" },
+    });
+    return;
+  }
+
+  try {
+    const { status, body } = await forward(raw);
+    send(res, status, body);
+  } catch (err) {
+    send(res, 502, { error: `upstream failed: ${err.message}` });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(
+    `mock RPC on http://localhost:${PORT} (lag ${LAG} slots` +
+      `${FAIL_STATUS ? `, failing with ${FAIL_STATUS}` : ""}` +
+      `${UPSTREAM ? `, upstream ${UPSTREAM}` : ""})`
+  );
+});
@@ -1,4 +1,4 @@
-import { useMemo, useState } from "react";
+import { useState } from "react";
 import "./App.css";
 import StatusCard from "./components/StatusCard";
 import PriceTickerBar from "./components/PriceTickerBar";
@@ -6,37 +6,43 @@ import TaxedSendCard from "./components/TaxedSendCard";
 import StorefrontPurchaseCard from "./components/StorefrontPurchaseCard";
 import PurchaseCard from "./components/PurchaseCard";
 import WalletOverview from "./components/WalletOverview";
+import PortfolioCard from "./components/PortfolioCard";
+import HistoryCard from "./components/HistoryCard";
+import AddressBookCard from "./components/AddressBookCard";
 import ActivityCard from "./components/ActivityCard";
+import RpcHealthCard from "./components/RpcHealthCard";
+import LocalnetConfigCard from "./components/LocalnetConfigCard";
+import PendingTxIndicator from "./components/PendingTxIndicator";
+import SessionChip from "./components/SessionChip";
 import { WalletMultiButton } from "@solana/wallet-adapter-react-ui";
 import { useWallet } from "@solana/wallet-adapter-react";
 import { DEFAULT_PUBLIC_MODE } from "./config";
-import {
-  DEVNET_CONFIG,
-  MAINNET_CONFIG,
-  type AksolNetworkConfig,
-  type NetworkName,
-} from "./networkConfig";
+import { NETWORKS, explorerTxUrl, type NetworkName } from "./networkConfig";
+import { useNetwork } from "./networkContext";
+import { usePendingTxWatcher } from "./lib/usePendingTxWatcher";
 
 export type ActivityItem = {
   id: string;
   label: string;
   timestamp: string;
-  signature?: string; // for explorer link in ActivityCard
+  signature?: string;
+  explorerUrl?: string; // built for the cluster the action ran on
 };
 
+// Public view only flips between devnet and mainnet; the dev view also
+// cycles through the local test validator.
+const PUBLIC_NETWORKS: NetworkName[] = ["devnet", "mainnet-beta"];
+const DEV_NETWORKS: NetworkName[] = ["devnet", "mainnet-beta", "localnet"];
+
 function App() {
   const [publicMode, setPublicMode] = useState<boolean>(DEFAULT_PUBLIC_MODE);
   const [activities, setActivities] = useState<ActivityItem[]>([]);
 
-  // devnet / mainnet toggle
-  const [networkName, setNetworkName] = useState<NetworkName>("devnet");
-
-  const networkConfig: AksolNetworkConfig = useMemo(
-    () => (networkName === "mainnet-beta" ? MAINNET_CONFIG : DEVNET_CONFIG),
-    [networkName]
-  );
-
-  const isMainnet = networkConfig.name === "mainnet-beta";
+  // cluster toggle (shared with the wallet connection)
+  const { networkName, networkConfig, isMainnet, setNetworkName } =
+    useNetwork();
+  const isLocalnet = networkName === "localnet";
+  const clusterLabel = isLocalnet ? "localnet" : "devnet";
 
   // wallet (for passing public key down to cards)
   const wallet = useWallet();
@@ -45,22 +51,45 @@ function App() {
   // toggle between Public view / Dev view
   const toggleMode = () => setPublicMode((prev) => !prev);
 
-  // toggle between devnet / mainnet
-  const toggleNetwork = () =>
-    setNetworkName((prev) => (prev === "devnet" ? "mainnet-beta" : "devnet"));
+  // cycle through the clusters available in the current view
+  const toggleNetwork = () => {
+    const options = publicMode ? PUBLIC_NETWORKS : DEV_NETWORKS;
+    const next = options[(options.indexOf(networkName) + 1) % options.length];
+    setNetworkName(next);
+  };
 
-  // log actions for the ActivityCard
-  const logAction = (label: string, signature?: string) => {
+  // log actions for the ActivityCard; `network` is where the transaction
+  // ran when that is not the current cluster
+  const logAction = (
+    label: string,
+    signature?: string,
+    network: NetworkName = networkName
+  ) => {
+    const config = network === networkName ? networkConfig : NETWORKS[network];
     const item: ActivityItem = {
       id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
       label,
       timestamp: new Date().toISOString(),
       signature,
+      explorerUrl: signature ? explorerTxUrl(config, signature) : undefined,
     };
     // Keep only the last 3 actions
     setActivities((prev) => [item, ...prev].slice(0, 3));
   };
 
+  // Transactions sent before a reload settle here instead of in their card.
+  usePendingTxWatcher((entry) => {
+    const outcome =
+      entry.status === "confirmed"
+        ? "confirmed"
+        : `${entry.status}${entry.error ? `: ${entry.error}` : ""}`;
+    logAction(
+      `${entry.label} ${outcome} (resumed)`,
+      entry.signature,
+      entry.network
+    );
+  });
+
   const viewLabel = publicMode ? "Public view" : "Dev view";
   const viewClassName = `app-view-toggle ${
     publicMode ? "" : "app-view-toggle-active"
@@ -81,7 +110,7 @@ function App() {
             <p>
               {isMainnet
                 ? "Mainnet control panel for the AKSOL ecosystem."
-                : "Live devnet demo for the AKSOL ecosystem."}
+                : `Live ${clusterLabel} demo for the AKSOL ecosystem.`}
             </p>
           </div>
         </div>
@@ -96,15 +125,21 @@ function App() {
             {viewLabel}
           </button>
 
-          {/* Solana cluster pill (click to toggle devnet / mainnet) */}
+          {/* Solana cluster pill (click to cycle clusters) */}
           <button
             type="button"
             className="app-status-chip"
             onClick={toggleNetwork}
           >
-            {isMainnet ? "Solana · MAINNET" : "Solana · devnet"}
+            {isMainnet ? "Solana · MAINNET" : `Solana · ${clusterLabel}`}
           </button>
 
+          {/* In-flight transactions across all cards */}
+          <PendingTxIndicator />
+
+          {/* Backend session (Sign-In With Solana) */}
+          <SessionChip />
+
           {/* WalletConnect */}
           <div className="app-wallet">
             <WalletMultiButton />
@@ -115,10 +150,14 @@ function App() {
       {/* SUBHEADER STRIP */}
       <section className="app-subheader">
         <div>
-          <h2>{isMainnet ? "AKSOL mainnet" : "AKSOL devnet demo"}</h2>
+          <h2>
+            {isMainnet ? "AKSOL mainnet" : `AKSOL ${clusterLabel} demo`}
+          </h2>
           <p>
             {isMainnet
               ? "You are connected to Solana MAINNET. Use only small, deliberate amounts and double-check addresses before sending."
+              : isLocalnet
+              ? "Connected to a local solana-test-validator. Program ID, mint and config come from env or the dev-view localnet form."
               : "Connect your wallet, see your balances, send AKSOL with tax, or buy via the official 0% route. All flows run on Solana devnet for testing only."}
           </p>
         </div>
@@ -136,12 +175,11 @@ function App() {
       )}
 
       {/* Live SOL / AKSOL ticker bar */}
-      <PriceTickerBar isMainnet={isMainnet} />
+      <PriceTickerBar />
 
       {/* Storefront card sits directly under the market snapshot */}
       <section className="storefront-wrapper">
         <StorefrontPurchaseCard
-          isMainnet={isMainnet}
           publicMode={publicMode}
           logAction={logAction}
         />
@@ -150,23 +188,26 @@ function App() {
       {/* MAIN CARD GRID: Wallet + Activity on top, core controls below */}
       <main className="card-grid">
         <WalletOverview />
+        <PortfolioCard logAction={logAction} />
         <ActivityCard actions={activities} />
+        <HistoryCard />
         <StatusCard publicMode={publicMode} logAction={logAction} />
         <TaxedSendCard
           publicMode={publicMode}
           logAction={logAction}
-          isMainnet={isMainnet}
-          networkConfig={networkConfig}
           walletPublicKey={walletPublicKey}
         />
         <PurchaseCard publicMode={publicMode} logAction={logAction} />
+        <AddressBookCard />
+        {!publicMode && <RpcHealthCard />}
+        {!publicMode && isLocalnet && <LocalnetConfigCard />}
       </main>
 
       {/* FOOTER */}
       <footer className="app-footer">
         <span>
           AKSOL is currently running on Solana{" "}
-          {isMainnet ? "MAINNET" : "devnet"}.
+          {isMainnet ? "MAINNET" : clusterLabel}.
         </span>
         <span className="dot">•</span>
         <span className="accent">
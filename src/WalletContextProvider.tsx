@@ -1,16 +1,30 @@
-import { useMemo } from "react";
+import { useEffect, useMemo, useState } from "react";
 import type { ReactNode } from "react";
 import {
   ConnectionProvider,
   WalletProvider,
 } from "@solana/wallet-adapter-react";
-import { WalletAdapterNetwork } from "@solana/wallet-adapter-base";
 import { WalletModalProvider } from "@solana/wallet-adapter-react-ui";
-import { PhantomWalletAdapter } from "@solana/wallet-adapter-wallets";
-import { clusterApiUrl } from "@solana/web3.js";
+import type { ConnectionConfig } from "@solana/web3.js";
 
 import "@solana/wallet-adapter-react-ui/styles.css";
 
+import { DEFAULT_CLUSTER } from "./config";
+import {
+  loadLocalnetOverrides,
+  resolveNetworkConfig,
+  saveLocalnetOverrides,
+  type LocalnetOverrides,
+  type NetworkName,
+} from "./networkConfig";
+import { NetworkContext, type NetworkContextState } from "./networkContext";
+import { createRpcPool } from "./lib/rpcPool";
+import {
+  WALLET_STORAGE_KEY,
+  createWalletAdapters,
+  disconnectDroppedAdapters,
+} from "./lib/wallets";
+
 interface WalletContextProviderProps {
   children: ReactNode;
 }
@@ -18,24 +32,68 @@ interface WalletContextProviderProps {
 export function WalletContextProvider({
   children,
 }: WalletContextProviderProps) {
-  // Use devnet for AKSOL dev
-  const network = WalletAdapterNetwork.Devnet;
+  const [networkName, setNetworkName] = useState<NetworkName>(DEFAULT_CLUSTER);
+  const [localnetOverrides, setLocalnetOverridesState] =
+    useState<LocalnetOverrides>(loadLocalnetOverrides);
+
+  const network: NetworkContextState = useMemo(() => {
+    const networkConfig = resolveNetworkConfig(networkName, localnetOverrides);
+    const setLocalnetOverrides = (overrides: LocalnetOverrides) => {
+      saveLocalnetOverrides(overrides);
+      setLocalnetOverridesState(overrides);
+    };
+    return {
+      networkName,
+      networkConfig,
+      isMainnet: networkConfig.name === "mainnet-beta",
+      rpcPool: createRpcPool(networkConfig.rpcUrls),
+      setNetworkName,
+      localnetOverrides,
+      setLocalnetOverrides,
+    };
+  }, [networkName, localnetOverrides]);
 
-  const endpoint = useMemo(() => clusterApiUrl(network), [network]);
+  const { rpcPool } = network;
+
+  // Background health probing only runs for the active network's pool.
+  useEffect(() => {
+    rpcPool.start();
+    return () => rpcPool.stop();
+  }, [rpcPool]);
+
+  // ConnectionProvider builds a fresh Connection whenever the endpoint or
+  // config changes, so switching clusters re-points every useConnection()
+  // consumer. HTTP calls go through the pool; the endpoint itself is only
+  // used as the primary URL (and to derive the websocket endpoint).
+  const endpoint = network.networkConfig.rpcUrls[0];
+  const connectionConfig: ConnectionConfig = useMemo(
+    () => ({
+      fetch: rpcPool.fetch,
+      // Let the pool fail over on 429 instead of web3.js retrying one node.
+      disableRetryOnRateLimit: true,
+    }),
+    [rpcPool]
+  );
 
+  // Explicit adapters follow the network's wallet list; Wallet Standard
+  // wallets are added by WalletProvider itself.
   const wallets = useMemo(
-    () => [
-      // Add more adapters here later if you want (Solflare, Backpack, etc.)
-      new PhantomWalletAdapter(),
-    ],
-    [network]
+    () => createWalletAdapters(network.networkConfig),
+    [network.networkConfig]
   );
+  useEffect(() => disconnectDroppedAdapters(wallets), [wallets]);
 
   return (
-    <ConnectionProvider endpoint={endpoint}>
-      <WalletProvider wallets={wallets} autoConnect>
-        <WalletModalProvider>{children}</WalletModalProvider>
-      </WalletProvider>
-    </ConnectionProvider>
+    <NetworkContext.Provider value={network}>
+      <ConnectionProvider endpoint={endpoint} config={connectionConfig}>
+        <WalletProvider
+          wallets={wallets}
+          autoConnect
+          localStorageKey={WALLET_STORAGE_KEY}
+        >
+          <WalletModalProvider>{children}</WalletModalProvider>
+        </WalletProvider>
+      </ConnectionProvider>
+    </NetworkContext.Provider>
   );
 }
@@ -1,6 +1,5 @@
 // src/components/ActivityCard.tsx
 import type { ActivityItem } from "../App";
-import { EXPLORER_BASE_URL, EXPLORER_CLUSTER_SUFFIX } from "../config";
 
 interface ActivityCardProps {
   actions: ActivityItem[];
@@ -41,9 +40,7 @@ function ActivityCard({ actions }: ActivityCardProps) {
           }}
         >
           {actions.map((a) => {
-            const explorerUrl = a.signature
-              ? `${EXPLORER_BASE_URL}/tx/${a.signature}${EXPLORER_CLUSTER_SUFFIX}`
-              : null;
+            const explorerUrl = a.explorerUrl ?? null;
 
             return (
               <li
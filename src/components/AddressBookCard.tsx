@@ -0,0 +1,178 @@
+// src/components/AddressBookCard.tsx
+import type { ChangeEvent, FormEvent } from "react";
+import { useState } from "react";
+import { explorerAddressUrl } from "../networkConfig";
+import { useNetwork } from "../networkContext";
+import {
+  exportAddressBook,
+  findLookalikes,
+  importAddressBook,
+  removeAddress,
+  saveAddress,
+  useAddressBook,
+  type AddressBookEntry,
+} from "../lib/addressBook";
+import { downloadText } from "../lib/download";
+import { describeError } from "../lib/errors";
+import { shortAddress } from "../lib/format";
+
+// Saved recipients for the active network, offered as suggestions in the
+// taxed send and storefront recipient fields.
+function AddressBookCard() {
+  const { networkName, networkConfig } = useNetwork();
+  const book = useAddressBook(networkName);
+
+  const [address, setAddress] = useState("");
+  const [label, setLabel] = useState("");
+  const [note, setNote] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const lookalikes = findLookalikes(book, address);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setMessage(null);
+    try {
+      saveAddress(networkName, address, label, note);
+      setAddress("");
+      setLabel("");
+      setNote("");
+    } catch (err) {
+      setError(describeError(err, "Could not save the address."));
+    }
+  };
+
+  const handleEdit = (entry: AddressBookEntry) => {
+    setAddress(entry.address);
+    setLabel(entry.label);
+    setNote(entry.note);
+    setError(null);
+    setMessage(null);
+  };
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    setError(null);
+    setMessage(null);
+    try {
+      const { added, updated, skipped } = importAddressBook(await file.text());
+      setMessage(
+        `Imported ${added} new, updated ${updated}` +
+          (skipped > 0 ? `, skipped ${skipped} invalid` : "") +
+          "."
+      );
+    } catch (err) {
+      setError(describeError(err, "Could not import the address book."));
+    }
+  };
+
+  return (
+    <section className="card card-taxed">
+      <h2>Address book</h2>
+      <small>
+        Labelled recipients for {networkConfig.label}, stored in this browser.
+      </small>
+
+      {book.length === 0 ? (
+        <p className="portfolio-note">No saved addresses yet.</p>
+      ) : (
+        <ul className="address-book-list">
+          {book.map((entry) => (
+            <li key={entry.id} className="address-book-row">
+              <div className="portfolio-token">
+                <strong>{entry.label}</strong>
+                <a
+                  className="tx-review-address"
+                  href={explorerAddressUrl(networkConfig, entry.address)}
+                  target="_blank"
+                  rel="noreferrer"
+                >
+                  {shortAddress(entry.address)}
+                </a>
+                {entry.note && (
+                  <small className="tx-review-meta">{entry.note}</small>
+                )}
+              </div>
+              <div className="address-book-actions">
+                <button type="button" onClick={() => handleEdit(entry)}>
+                  Edit
+                </button>
+                <button type="button" onClick={() => removeAddress(entry.id)}>
+                  Remove
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleSubmit} className="stacked-form">
+        <label className="field">
+          <span className="field-label">Address</span>
+          <input
+            type="text"
+            placeholder="Wallet address"
+            value={address}
+            onChange={(e) => setAddress(e.target.value)}
+          />
+        </label>
+        {lookalikes.map((entry) => (
+          <div key={entry.id} className="card-warning">
+            Resembles your saved “{entry.label}” ({shortAddress(entry.address)})
+            but is a different address.
+          </div>
+        ))}
+        <label className="field">
+          <span className="field-label">Label</span>
+          <input
+            type="text"
+            placeholder="e.g. Treasury multisig"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+          />
+        </label>
+        <label className="field">
+          <span className="field-label">Note (optional)</span>
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+          />
+        </label>
+        <button type="submit">Save address</button>
+      </form>
+
+      <div className="address-book-actions address-book-io">
+        <button
+          type="button"
+          onClick={() =>
+            downloadText(
+              "aksol-address-book.json",
+              exportAddressBook(),
+              "application/json"
+            )
+          }
+        >
+          Export JSON
+        </button>
+        <label className="address-book-import">
+          Import JSON
+          <input
+            type="file"
+            accept="application/json,.json"
+            onChange={handleImport}
+          />
+        </label>
+      </div>
+
+      {message && <div className="status-ok">{message}</div>}
+      {error && <div className="status-error">Error: {error}</div>}
+    </section>
+  );
+}
+
+export default AddressBookCard;
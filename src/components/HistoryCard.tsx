@@ -0,0 +1,248 @@
+// src/components/HistoryCard.tsx
+import { useState } from "react";
+import { useConnection, useWallet } from "@solana/wallet-adapter-react";
+import { explorerAddressUrl, explorerTxUrl } from "../networkConfig";
+import { useNetwork } from "../networkContext";
+import { downloadText } from "../lib/download";
+import { describeError } from "../lib/errors";
+import { formatTokenAmount, shortAddress } from "../lib/format";
+import {
+  fetchHistoryPage,
+  historyToCsv,
+  HISTORY_TYPE_LABELS,
+  type HistoryCursor,
+  type HistoryRow,
+  type HistoryType,
+} from "../lib/txHistory";
+import { useAksolConfig } from "../lib/useAksolConfig";
+
+// "aksol" shows everything except transactions that moved no AKSOL or SOL
+// through a known route.
+type HistoryFilter = "aksol" | "all" | HistoryType;
+
+type LoadedHistory = {
+  key: string;
+  rows: HistoryRow[];
+  before: HistoryCursor | null;
+};
+
+const FILTER_TYPES = Object.keys(HISTORY_TYPE_LABELS) as HistoryType[];
+
+// Local-date bounds from <input type="date"> values, in unix seconds.
+function dayStart(value: string): number | null {
+  return value ? new Date(`${value}T00:00:00`).getTime() / 1000 : null;
+}
+
+function dayEnd(value: string): number | null {
+  return value ? new Date(`${value}T23:59:59.999`).getTime() / 1000 : null;
+}
+
+function HistoryCard() {
+  const { connection } = useConnection();
+  const wallet = useWallet();
+  const { networkConfig } = useNetwork();
+  const aksolConfig = useAksolConfig();
+
+  const [loaded, setLoaded] = useState<LoadedHistory | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState<HistoryFilter>("aksol");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  const owner = wallet.publicKey?.toBase58() ?? null;
+  const key = `${connection.rpcEndpoint}|${owner ?? ""}`;
+  // Pages loaded for another wallet or network are ignored.
+  const history = loaded?.key === key ? loaded : null;
+
+  const loadPage = async () => {
+    if (!owner) return;
+    setError(null);
+    setLoading(true);
+    try {
+      const page = await fetchHistoryPage(
+        connection,
+        {
+          owner,
+          mint: networkConfig.mint,
+          taxWallets:
+            aksolConfig.status === "ready"
+              ? aksolConfig.config.destinations.map((d) => d.wallet)
+              : [],
+          zeroRouteWallet: networkConfig.zeroRouteWallet,
+          storefrontWallet: networkConfig.storefrontWallet,
+        },
+        history?.before ?? undefined
+      );
+      setLoaded({
+        key,
+        rows: [...(history?.rows ?? []), ...page.rows],
+        before: page.before,
+      });
+    } catch (err) {
+      console.error("History error:", err);
+      setError(describeError(err, "Could not load transaction history."));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const start = dayStart(from);
+  const end = dayEnd(to);
+  const rows = (history?.rows ?? []).filter((row) => {
+    if (filter === "aksol" && row.type === "other") return false;
+    if (filter !== "aksol" && filter !== "all" && row.type !== filter) {
+      return false;
+    }
+    if (start != null && (row.blockTime == null || row.blockTime < start)) {
+      return false;
+    }
+    if (end != null && (row.blockTime == null || row.blockTime > end)) {
+      return false;
+    }
+    return true;
+  });
+
+  const aksol = (row: HistoryRow, amount: bigint | null) =>
+    amount != null && row.decimals != null
+      ? `${formatTokenAmount(amount, row.decimals)} AKSOL`
+      : null;
+
+  return (
+    <section className="card history-card">
+      <h2>Transaction history</h2>
+      <small>
+        AKSOL sends, 0% route purchases and storefront fulfillments for your
+        wallet on {networkConfig.label}.
+      </small>
+
+      {!owner ? (
+        <p className="portfolio-note">Connect your wallet to see its history.</p>
+      ) : (
+        <>
+          <div className="history-filters">
+            <label className="field-group">
+              <span>Type</span>
+              <select
+                value={filter}
+                onChange={(e) => setFilter(e.target.value as HistoryFilter)}
+              >
+                <option value="aksol">All AKSOL activity</option>
+                {FILTER_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {HISTORY_TYPE_LABELS[type]}
+                  </option>
+                ))}
+                <option value="all">Everything</option>
+              </select>
+            </label>
+            <label className="field-group">
+              <span>From</span>
+              <input
+                type="date"
+                value={from}
+                onChange={(e) => setFrom(e.target.value)}
+              />
+            </label>
+            <label className="field-group">
+              <span>To</span>
+              <input
+                type="date"
+                value={to}
+                onChange={(e) => setTo(e.target.value)}
+              />
+            </label>
+          </div>
+
+          {history && rows.length === 0 && (
+            <p className="portfolio-note">
+              No matching transactions in the {history.rows.length} loaded.
+            </p>
+          )}
+
+          {rows.length > 0 && (
+            <ul className="history-list">
+              {rows.map((row) => (
+                <li key={row.signature} className="history-row">
+                  <div className="history-main">
+                    <strong>{HISTORY_TYPE_LABELS[row.type]}</strong>
+                    {row.status === "failed" && (
+                      <span className="history-failed">Failed</span>
+                    )}
+                    <a
+                      className="tx-review-address"
+                      href={explorerTxUrl(networkConfig, row.signature)}
+                      target="_blank"
+                      rel="noreferrer"
+                    >
+                      {row.blockTime != null
+                        ? new Date(row.blockTime * 1000).toLocaleString()
+                        : shortAddress(row.signature)}
+                    </a>
+                  </div>
+                  <div className="history-detail">
+                    {aksol(row, row.aksolAmount) && (
+                      <span>{aksol(row, row.aksolAmount)}</span>
+                    )}
+                    {row.solLamports != null && (
+                      <span>{formatTokenAmount(row.solLamports, 9)} SOL</span>
+                    )}
+                    {aksol(row, row.taxPaid) && (
+                      <small>Tax {aksol(row, row.taxPaid)}</small>
+                    )}
+                    {row.counterparty && (
+                      <a
+                        className="tx-review-address"
+                        href={explorerAddressUrl(
+                          networkConfig,
+                          row.counterparty
+                        )}
+                        target="_blank"
+                        rel="noreferrer"
+                      >
+                        {row.type === "incoming" || row.type === "storefront"
+                          ? "from "
+                          : "to "}
+                        {shortAddress(row.counterparty)}
+                      </a>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="history-actions">
+            {(!history || history.before) && (
+              <button type="button" disabled={loading} onClick={loadPage}>
+                {loading
+                  ? "Loading…"
+                  : history
+                  ? "Load more"
+                  : "Load history"}
+              </button>
+            )}
+            {rows.length > 0 && (
+              <button
+                type="button"
+                onClick={() =>
+                  downloadText(
+                    "aksol-history.csv",
+                    historyToCsv(rows),
+                    "text/csv"
+                  )
+                }
+              >
+                Export CSV
+              </button>
+            )}
+          </div>
+        </>
+      )}
+
+      {error && <div className="status-error">Error: {error}</div>}
+    </section>
+  );
+}
+
+export default HistoryCard;
@@ -0,0 +1,134 @@
+// src/components/LocalnetConfigCard.tsx
+import type { FormEvent } from "react";
+import { useState } from "react";
+import { PublicKey } from "@solana/web3.js";
+import { LOCALNET_CONFIG } from "../networkConfig";
+import { useNetwork } from "../networkContext";
+
+function isValidPubkey(value: string): boolean {
+  try {
+    new PublicKey(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Dev-view form for pointing the localnet network at a running
+// solana-test-validator. Blank fields fall back to the VITE_*_LOCALNET env.
+function LocalnetConfigCard() {
+  const { networkConfig, localnetOverrides, setLocalnetOverrides } =
+    useNetwork();
+
+  const [rpcUrl, setRpcUrl] = useState(
+    localnetOverrides.rpcUrls?.join(", ") ?? ""
+  );
+  const [programId, setProgramId] = useState(localnetOverrides.programId ?? "");
+  const [mint, setMint] = useState(localnetOverrides.mint ?? "");
+  const [configPda, setConfigPda] = useState(localnetOverrides.configPda ?? "");
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setSaved(false);
+
+    const addresses = { programId, mint, configPda };
+    for (const [field, value] of Object.entries(addresses)) {
+      if (value.trim() && !isValidPubkey(value.trim())) {
+        setError(`${field} is not a valid base58 public key.`);
+        return;
+      }
+    }
+
+    const rpcUrls = rpcUrl
+      .split(",")
+      .map((url) => url.trim())
+      .filter(Boolean);
+
+    setLocalnetOverrides({
+      rpcUrls: rpcUrls.length > 0 ? rpcUrls : undefined,
+      programId: programId.trim() || undefined,
+      mint: mint.trim() || undefined,
+      configPda: configPda.trim() || undefined,
+    });
+    setSaved(true);
+  };
+
+  const handleReset = () => {
+    setRpcUrl("");
+    setProgramId("");
+    setMint("");
+    setConfigPda("");
+    setError(null);
+    setSaved(false);
+    setLocalnetOverrides({});
+  };
+
+  return (
+    <section className="card card-taxed">
+      <h2>Localnet config</h2>
+      <small>
+        Point the dApp at a local <code>solana-test-validator</code>. Leave a
+        field blank to use the env default.
+      </small>
+
+      <form onSubmit={handleSubmit} className="stacked-form">
+        <label className="field">
+          <span className="field-label">RPC URL(s)</span>
+          <input
+            type="text"
+            placeholder={LOCALNET_CONFIG.rpcUrls.join(", ")}
+            value={rpcUrl}
+            onChange={(e) => setRpcUrl(e.target.value)}
+          />
+        </label>
+
+        <label className="field">
+          <span className="field-label">Program ID</span>
+          <input
+            type="text"
+            placeholder={LOCALNET_CONFIG.programId || "AKSOL program ID"}
+            value={programId}
+            onChange={(e) => setProgramId(e.target.value)}
+          />
+        </label>
+
+        <label className="field">
+          <span className="field-label">Mint</span>
+          <input
+            type="text"
+            placeholder={LOCALNET_CONFIG.mint || "AKSOL mint"}
+            value={mint}
+            onChange={(e) => setMint(e.target.value)}
+          />
+        </label>
+
+        <label className="field">
+          <span className="field-label">Config PDA</span>
+          <input
+            type="text"
+            placeholder={LOCALNET_CONFIG.configPda || "AKSOL config account"}
+            value={configPda}
+            onChange={(e) => setConfigPda(e.target.value)}
+          />
+        </label>
+
+        <button type="submit">Apply localnet config</button>
+        <button type="button" onClick={handleReset}>
+          Reset to env
+        </button>
+      </form>
+
+      {error && <div className="status-error">Error: {error}</div>}
+      {saved && !error && (
+        <div className="status-ok">
+          Using <code>{networkConfig.rpcUrls[0]}</code>
+        </div>
+      )}
+    </section>
+  );
+}
+
+export default LocalnetConfigCard;
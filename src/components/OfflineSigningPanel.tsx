@@ -0,0 +1,262 @@
+// src/components/OfflineSigningPanel.tsx
+import { useEffect, useId, useState } from "react";
+import { useConnection } from "@solana/wallet-adapter-react";
+import { explorerTxUrl } from "../networkConfig";
+import { useNetwork } from "../networkContext";
+import {
+  parseSignedTransaction,
+  prepareOfflineExport,
+  serializeSigned,
+  verifySignedTransaction,
+  type OfflineExport,
+} from "../lib/offlineSigning";
+import type { TransferIntent } from "../lib/txPolicy";
+import { describeError } from "../lib/errors";
+import { isAbortError } from "../lib/request";
+import { shortAddress } from "../lib/format";
+import { useTransactionPipeline } from "../lib/useTransactionPipeline";
+import TxProgressSteps from "./TxProgressSteps";
+
+export type UnsignedExport = {
+  base64: string;
+  lastValidBlockHeight?: number;
+  intent?: TransferIntent;
+};
+
+type OfflineSigningPanelProps = {
+  unsigned: UnsignedExport | null;
+  // Activity label, e.g. "Taxed send".
+  label: string;
+  logAction: (label: string, signature?: string) => void;
+};
+
+type Encoding = "base64" | "base58";
+
+// Dev-view round trip for operators who sign outside the browser: shows the
+// unsigned transaction and its decoded instructions, then verifies and
+// broadcasts the signed copy pasted back in.
+function OfflineSigningPanel({
+  unsigned,
+  label,
+  logAction,
+}: OfflineSigningPanelProps) {
+  const { connection } = useConnection();
+  const { networkConfig } = useNetwork();
+  const pipeline = useTransactionPipeline();
+  const encodingName = useId();
+
+  const [exported, setExported] = useState<OfflineExport | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [encoding, setEncoding] = useState<Encoding>("base64");
+  const [copied, setCopied] = useState(false);
+  const [signedText, setSignedText] = useState("");
+  const [problems, setProblems] = useState<string[]>([]);
+  const [broadcasting, setBroadcasting] = useState(false);
+  const [sentSig, setSentSig] = useState<string | null>(null);
+
+  useEffect(() => {
+    setExported(null);
+    setExportError(null);
+    setSignedText("");
+    setProblems([]);
+    setSentSig(null);
+    if (!unsigned) return;
+
+    let cancelled = false;
+    prepareOfflineExport(
+      connection,
+      unsigned.base64,
+      unsigned.lastValidBlockHeight,
+      networkConfig.programId,
+      unsigned.intent
+    )
+      .then((result) => {
+        if (!cancelled) setExported(result);
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setExportError(describeError(err, "Could not decode transaction."));
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [unsigned, connection, networkConfig.programId]);
+
+  if (!unsigned) return null;
+
+  const text = exported
+    ? encoding === "base64"
+      ? exported.base64
+      : exported.base58
+    : "";
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+      window.setTimeout(() => setCopied(false), 1500);
+    } catch {
+      // clipboard blocked; the textarea is still selectable
+    }
+  };
+
+  const handleBroadcast = async () => {
+    setProblems([]);
+    setSentSig(null);
+
+    let found: string[];
+    let signedBase64: string;
+    try {
+      const signed = parseSignedTransaction(signedText);
+      found = verifySignedTransaction(signed, unsigned.base64);
+      signedBase64 = serializeSigned(signed);
+    } catch (err) {
+      setProblems([
+        describeError(err, "Could not read the signed transaction."),
+      ]);
+      return;
+    }
+    if (found.length > 0) {
+      setProblems(found);
+      logAction(`${label} (offline) rejected: signature check failed`);
+      return;
+    }
+
+    setBroadcasting(true);
+    try {
+      const sig = await pipeline.broadcastSigned({
+        base64: signedBase64,
+        lastValidBlockHeight: unsigned.lastValidBlockHeight,
+        label: `${label} (offline-signed)`,
+      });
+      setSentSig(sig);
+      logAction(`${label} (offline-signed)`, sig);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      const msg = describeError(err, "Broadcast failed.");
+      setProblems([msg]);
+      logAction(`${label} (offline) failed: ${msg}`);
+    } finally {
+      setBroadcasting(false);
+    }
+  };
+
+  return (
+    <div className="offline-sign">
+      <div className="tx-review-title">Offline signing</div>
+
+      {exportError && <div className="status-error">{exportError}</div>}
+      {!exported && !exportError && <small>Decoding transaction…</small>}
+
+      {exported && exported.violations.length > 0 && (
+        <div className="status-error">
+          Export refused: the transaction does not match your request.
+          <ul>
+            {exported.violations.map((v) => (
+              <li key={v}>{v}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {exported && exported.violations.length === 0 && (
+        <>
+          <div className="offline-sign-encoding">
+            {(["base64", "base58"] as Encoding[]).map((option) => (
+              <label key={option}>
+                <input
+                  type="radio"
+                  name={encodingName}
+                  checked={encoding === option}
+                  onChange={() => setEncoding(option)}
+                />{" "}
+                {option}
+              </label>
+            ))}
+            <button
+              type="button"
+              className="tx-review-link"
+              onClick={handleCopy}
+            >
+              {copied ? "Copied" : "Copy"}
+            </button>
+          </div>
+          <textarea readOnly rows={4} value={text} />
+
+          <ul className="offline-sign-summary">
+            <li>
+              Fee payer: <code>{shortAddress(exported.feePayer)}</code>
+            </li>
+            <li>
+              Signers needed:{" "}
+              {exported.signers.map((s) => shortAddress(s)).join(", ")}
+            </li>
+            <li>
+              Blockhash <code>{shortAddress(exported.blockhash)}</code>
+              {exported.lastValidBlockHeight != null &&
+                ` · valid until block ${exported.lastValidBlockHeight.toLocaleString()}`}
+              . Sign and paste back within about a minute, or request a new
+              transaction.
+            </li>
+            {exported.instructions.map((ix, i) => (
+              <li key={i}>
+                {i + 1}. {ix}
+              </li>
+            ))}
+          </ul>
+
+          {exported.warnings.length > 0 && (
+            <ul className="tx-review-warnings">
+              {exported.warnings.map((w) => (
+                <li key={w}>{w}</li>
+              ))}
+            </ul>
+          )}
+
+          <label className="field">
+            <span className="field-label">Signed transaction</span>
+            <textarea
+              rows={4}
+              placeholder="Paste the signed transaction (base64 or base58)"
+              value={signedText}
+              onChange={(e) => setSignedText(e.target.value)}
+            />
+          </label>
+
+          <button
+            type="button"
+            onClick={handleBroadcast}
+            disabled={broadcasting || !signedText.trim()}
+          >
+            {broadcasting ? "Broadcasting…" : "Verify & broadcast"}
+          </button>
+        </>
+      )}
+
+      {problems.length > 0 && (
+        <ul className="status-error">
+          {problems.map((p) => (
+            <li key={p}>{p}</li>
+          ))}
+        </ul>
+      )}
+
+      <TxProgressSteps progress={pipeline.progress} />
+
+      {sentSig && (
+        <div className="wallet-overview-link">
+          <a
+            href={explorerTxUrl(networkConfig, sentSig)}
+            target="_blank"
+            rel="noreferrer"
+          >
+            View broadcast tx on Explorer
+          </a>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default OfflineSigningPanel;
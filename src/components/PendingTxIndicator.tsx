@@ -0,0 +1,96 @@
+// src/components/PendingTxIndicator.tsx
+import { useState } from "react";
+import { NETWORKS, explorerTxUrl } from "../networkConfig";
+import { useNetwork } from "../networkContext";
+import {
+  clearSettled,
+  usePendingTransactions,
+  type PendingTx,
+} from "../lib/pendingTx";
+import { shortAddress } from "../lib/format";
+
+const STATUS_LABELS: Record<PendingTx["status"], string> = {
+  pending: "In flight",
+  confirmed: "Confirmed",
+  failed: "Failed",
+  expired: "Expired",
+};
+
+// Header chip counting in-flight transactions from every card; opens a list
+// with the recently settled ones too.
+function PendingTxIndicator() {
+  const { networkName, networkConfig } = useNetwork();
+  const entries = usePendingTransactions();
+  const [open, setOpen] = useState(false);
+
+  if (entries.length === 0) return null;
+
+  const inFlight = entries.filter((e) => e.status === "pending").length;
+  const hasSettled = inFlight < entries.length;
+
+  return (
+    <div className="pending-tx">
+      <button
+        type="button"
+        className={`pending-tx-chip ${
+          inFlight > 0 ? "pending-tx-chip-active" : ""
+        }`}
+        onClick={() => setOpen((prev) => !prev)}
+      >
+        {inFlight > 0 ? `${inFlight} in flight` : "Recent txs"}
+      </button>
+
+      {open && (
+        <div className="pending-tx-menu">
+          <ul>
+            {entries.map((entry) => (
+              <li key={entry.signature} className="pending-tx-row">
+                <div>
+                  <strong>{entry.label}</strong>{" "}
+                  <span className="pending-tx-network">{entry.network}</span>
+                </div>
+                <div>
+                  <span className={`pending-tx-status-${entry.status}`}>
+                    {STATUS_LABELS[entry.status]}
+                  </span>{" "}
+                  <a
+                    href={explorerTxUrl(
+                      entry.network === networkName
+                        ? networkConfig
+                        : NETWORKS[entry.network],
+                      entry.signature
+                    )}
+                    target="_blank"
+                    rel="noreferrer"
+                  >
+                    <code>{shortAddress(entry.signature)}</code>
+                  </a>
+                </div>
+                {entry.error && (
+                  <div className="pending-tx-error">{entry.error}</div>
+                )}
+                {entry.status === "pending" &&
+                  entry.network !== networkName && (
+                    <div className="pending-tx-network">
+                      Switch to {entry.network} to resume tracking.
+                    </div>
+                  )}
+              </li>
+            ))}
+          </ul>
+          {hasSettled && (
+            <button
+              type="button"
+              className="pending-tx-clear"
+              onClick={clearSettled}
+            >
+              Clear finished
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default PendingTxIndicator;
@@ -0,0 +1,247 @@
+// src/components/PortfolioCard.tsx
+import { useState } from "react";
+import { useConnection, useWallet } from "@solana/wallet-adapter-react";
+import { Transaction } from "@solana/web3.js";
+import { explorerAddressUrl } from "../networkConfig";
+import { useNetwork } from "../networkContext";
+import { describeError } from "../lib/errors";
+import { formatTokenAmount, shortAddress } from "../lib/format";
+import { lamportsToUsd, usePrices } from "../lib/prices";
+import { WRAPPED_SOL_MINT } from "../lib/programs";
+import { SigningCancelledError, uint8ArrayToBase64 } from "../lib/solanaTx";
+import { closeAccountInstruction } from "../lib/tokens";
+import { PolicyViolationError } from "../lib/txPolicy";
+import {
+  useTokenPortfolio,
+  type PortfolioEntry,
+} from "../lib/useTokenPortfolio";
+import { useTransactionPipeline } from "../lib/useTransactionPipeline";
+import TransactionReviewPanel from "./TransactionReviewPanel";
+import TxProgressSteps from "./TxProgressSteps";
+
+type PortfolioCardProps = {
+  logAction: (label: string, signature?: string) => void;
+};
+
+// Keeps each close transaction well under the size limit.
+const CLOSES_PER_TRANSACTION = 10;
+
+function TokenLogo({ entry }: { entry: PortfolioEntry }) {
+  const { metadata } = entry;
+  if (metadata?.image) {
+    return <img className="portfolio-logo" src={metadata.image} alt="" />;
+  }
+  return (
+    <span className="portfolio-logo portfolio-logo-empty">
+      {(metadata?.symbol || "?").slice(0, 1)}
+    </span>
+  );
+}
+
+function PortfolioCard({ logAction }: PortfolioCardProps) {
+  const { connection } = useConnection();
+  const wallet = useWallet();
+  const { networkConfig, isMainnet } = useNetwork();
+  const prices = usePrices();
+  const pipeline = useTransactionPipeline();
+  const { state, reload } = useTokenPortfolio(wallet.publicKey);
+
+  const [closing, setClosing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Only mainnet tokens have a market price, and only SOL and AKSOL are fed.
+  const usdPrice = (mint: string): number | null => {
+    if (!isMainnet) return null;
+    if (mint === WRAPPED_SOL_MINT.toBase58()) return prices.solUsd;
+    if (mint === networkConfig.mint) return prices.aksolUsd;
+    return null;
+  };
+
+  const emptyAccounts = state.status === "ready" ? state.emptyAccounts : [];
+  // Token-2022 accounts holding withheld fees refuse to close.
+  const closable = emptyAccounts.filter((a) => a.withheld === 0n);
+  const reclaimLamports = closable.reduce((sum, a) => sum + a.lamports, 0);
+  const reclaimUsd = lamportsToUsd(
+    reclaimLamports,
+    isMainnet ? prices.solUsd : null
+  );
+
+  const handleCloseEmpty = async () => {
+    const feePayer = wallet.publicKey;
+    if (!feePayer || closable.length === 0) return;
+    const owner = feePayer.toBase58();
+    setError(null);
+    pipeline.reset();
+    setClosing(true);
+
+    try {
+      const { blockhash, lastValidBlockHeight } =
+        await connection.getLatestBlockhash("confirmed");
+      const transactions: string[] = [];
+      for (let i = 0; i < closable.length; i += CLOSES_PER_TRANSACTION) {
+        const tx = new Transaction({ feePayer, blockhash, lastValidBlockHeight });
+        for (const account of closable.slice(i, i + CLOSES_PER_TRANSACTION)) {
+          tx.add(
+            closeAccountInstruction(
+              account.address,
+              owner,
+              owner,
+              account.tokenProgram
+            )
+          );
+        }
+        transactions.push(
+          uint8ArrayToBase64(
+            tx.serialize({ requireAllSignatures: false, verifySignatures: false })
+          )
+        );
+      }
+
+      const sigs = await pipeline.run({
+        transactions,
+        lastValidBlockHeight,
+        labels: { [owner]: "Your wallet" },
+        label: "Close empty token accounts",
+        intent: {
+          kind: "close-token-accounts",
+          owner,
+          accounts: closable.map((a) => a.address),
+        },
+      });
+      sigs.forEach((sig) => logAction("Closed empty token accounts", sig));
+      reload();
+    } catch (err) {
+      if (err instanceof SigningCancelledError) {
+        setError(err.message);
+        return;
+      }
+      if (err instanceof PolicyViolationError) {
+        setError(err.message);
+        logAction("Account close blocked: transaction did not match the request");
+        return;
+      }
+      console.error("Close accounts error:", err);
+      const msg = describeError(err, "Closing accounts failed.");
+      setError(msg);
+      logAction(`Closing empty token accounts failed: ${msg}`);
+    } finally {
+      setClosing(false);
+    }
+  };
+
+  return (
+    <section className="card portfolio-card">
+      <h2>Token portfolio</h2>
+      <small>
+        Every SPL and Token-2022 token in your wallet on {networkConfig.label}.
+      </small>
+
+      {state.status === "idle" && (
+        <p className="portfolio-note">Connect your wallet to see its tokens.</p>
+      )}
+      {state.status === "loading" && (
+        <p className="portfolio-note">Loading token accounts…</p>
+      )}
+      {state.status === "error" && (
+        <div className="status-error">Error: {state.error}</div>
+      )}
+
+      {state.status === "ready" && (
+        <>
+          {state.entries.length === 0 ? (
+            <p className="portfolio-note">No token balances.</p>
+          ) : (
+            <ul className="portfolio-list">
+              {state.entries.map((entry) => {
+                const { holding, metadata, pinned } = entry;
+                const price = usdPrice(holding.mint);
+                const usd =
+                  price != null
+                    ? (Number(holding.total) / 10 ** holding.decimals) * price
+                    : null;
+                return (
+                  <li key={holding.mint} className="portfolio-row">
+                    <TokenLogo entry={entry} />
+                    <div className="portfolio-token">
+                      <strong>
+                        {pinned === "aksol"
+                          ? "AKSOL"
+                          : metadata?.symbol || shortAddress(holding.mint)}
+                      </strong>
+                      {pinned && (
+                        <span className="portfolio-pin">
+                          {pinned === "aksol" ? "Pinned" : "Tax destination"}
+                        </span>
+                      )}
+                      <a
+                        className="tx-review-address"
+                        href={explorerAddressUrl(networkConfig, holding.mint)}
+                        target="_blank"
+                        rel="noreferrer"
+                      >
+                        {metadata?.name || shortAddress(holding.mint)}
+                      </a>
+                    </div>
+                    <div className="portfolio-amount">
+                      {formatTokenAmount(holding.total, holding.decimals)}
+                      {usd != null && (
+                        <small>
+                          ≈ $
+                          {usd.toLocaleString("en-US", {
+                            minimumFractionDigits: 2,
+                            maximumFractionDigits: 2,
+                          })}
+                        </small>
+                      )}
+                      {holding.accounts.length > 1 && (
+                        <small>{holding.accounts.length} accounts</small>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          {emptyAccounts.length > 0 && (
+            <div className="portfolio-empty">
+              <span>
+                {closable.length} empty token account
+                {closable.length === 1 ? "" : "s"} hold{" "}
+                {formatTokenAmount(BigInt(reclaimLamports), 9)} SOL of rent
+                {reclaimUsd ? ` (${reclaimUsd})` : ""}.
+              </span>
+              {emptyAccounts.length > closable.length && (
+                <small className="tx-review-meta">
+                  {emptyAccounts.length - closable.length} more hold withheld
+                  transfer fees and cannot be closed until they are harvested.
+                </small>
+              )}
+              {closable.length > 0 && (
+                <button
+                  type="button"
+                  disabled={closing}
+                  onClick={handleCloseEmpty}
+                >
+                  {closing ? "Closing…" : "Close and reclaim rent"}
+                </button>
+              )}
+            </div>
+          )}
+        </>
+      )}
+
+      <TransactionReviewPanel
+        review={pipeline.review}
+        onApprove={pipeline.approve}
+        onCancel={pipeline.cancel}
+      />
+
+      <TxProgressSteps progress={pipeline.progress} />
+
+      {error && <div className="status-error">Error: {error}</div>}
+    </section>
+  );
+}
+
+export default PortfolioCard;
@@ -0,0 +1,35 @@
+// src/components/PriorityFeeSelect.tsx
+import { PRIORITY_LEVELS, type PriorityLevel } from "../lib/priorityFee";
+
+const LEVEL_LABELS: Record<PriorityLevel, string> = {
+  low: "Low – cheapest, may be slow when busy",
+  normal: "Normal – median of recent fees",
+  fast: "Fast – for congestion, lands first",
+};
+
+type PriorityFeeSelectProps = {
+  value: PriorityLevel;
+  onChange: (level: PriorityLevel) => void;
+};
+
+// Fee preset for sends. The exact price is estimated from recent fees on the
+// accounts the transaction touches and shown in the review before signing.
+function PriorityFeeSelect({ value, onChange }: PriorityFeeSelectProps) {
+  return (
+    <label className="field">
+      <span className="field-label">Priority fee</span>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value as PriorityLevel)}
+      >
+        {PRIORITY_LEVELS.map((level) => (
+          <option key={level} value={level}>
+            {LEVEL_LABELS[level]}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+export default PriorityFeeSelect;
@@ -1,7 +1,21 @@
 import type { FormEvent } from "react";
 import { useState } from "react";
-import { useConnection, useWallet } from "@solana/wallet-adapter-react";
-import { Transaction } from "@solana/web3.js";
+import { useWallet } from "@solana/wallet-adapter-react";
+import { PublicKey } from "@solana/web3.js";
+import { explorerTxUrl } from "../networkConfig";
+import { useNetwork } from "../networkContext";
+import { requestZeroPercentPurchase } from "../lib/api";
+import { describeError } from "../lib/errors";
+import { isAbortError, useRequestSignal } from "../lib/request";
+import { SigningCancelledError } from "../lib/solanaTx";
+import { PolicyViolationError, type TransferIntent } from "../lib/txPolicy";
+import { solToLamports } from "../lib/format";
+import { useTransactionPipeline } from "../lib/useTransactionPipeline";
+import type { PriorityLevel } from "../lib/priorityFee";
+import TxProgressSteps from "./TxProgressSteps";
+import PriorityFeeSelect from "./PriorityFeeSelect";
+import TransactionReviewPanel from "./TransactionReviewPanel";
+import OfflineSigningPanel, { type UnsignedExport } from "./OfflineSigningPanel";
 
 type PurchaseCardProps = {
   publicMode: boolean;
@@ -9,36 +23,46 @@ type PurchaseCardProps = {
 };
 
 function PurchaseCard({ publicMode, logAction }: PurchaseCardProps) {
-  const { connection } = useConnection();
   const wallet = useWallet();
+  const pipeline = useTransactionPipeline();
+  const { networkConfig } = useNetwork();
+  const nextSignal = useRequestSignal();
 
   const [amount, setAmount] = useState("");
+  const [priority, setPriority] = useState<PriorityLevel>("normal");
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [lastSig, setLastSig] = useState<string | null>(null);
+  // Dev-view sign-only mode for multisig / cold-wallet operators.
+  const [offline, setOffline] = useState(false);
+  const [signerAddress, setSignerAddress] = useState("");
+  const [offlineTx, setOfflineTx] = useState<UnsignedExport | null>(null);
 
-  const backendBaseUrl =
-    import.meta.env.VITE_BACKEND_BASE_URL || "http://localhost:8080";
-  const cluster = import.meta.env.VITE_SOLANA_CLUSTER || "devnet";
-  const explorerBaseUrl =
-    import.meta.env.VITE_EXPLORER_BASE_URL || "https://explorer.solana.com";
+  const cluster = networkConfig.name;
+  const offlineMode = !publicMode && offline;
 
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
     setError(null);
     setLastSig(null);
+    setOfflineTx(null);
+    pipeline.reset();
 
-    if (!wallet.connected || !wallet.publicKey) {
+    if (!offlineMode && (!wallet.connected || !wallet.publicKey)) {
       const msg = "Connect a wallet before using the 0% route.";
       setError(msg);
       logAction("0% purchase failed: no wallet connected");
       return;
     }
 
-    if (!wallet.signTransaction) {
-      const msg = "Current wallet does not support transaction signing.";
-      setError(msg);
-      logAction("0% purchase failed: wallet cannot sign");
+    // Offline mode signs elsewhere, so the buyer can be any address.
+    const signer = offlineMode
+      ? signerAddress.trim() || wallet.publicKey?.toBase58() || ""
+      : wallet.publicKey?.toBase58() ?? "";
+    try {
+      new PublicKey(signer);
+    } catch {
+      setError("Signer address is not a valid Solana address.");
       return;
     }
 
@@ -53,46 +77,72 @@ function PurchaseCard({ publicMode, logAction }: PurchaseCardProps) {
     setLoading(true);
 
     try {
-      const resp = await fetch(
-        `${backendBaseUrl}/aksol/zero-percent-purchase`,
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            fromPubkey: wallet.publicKey.toBase58(),
+      const { transactions, lastValidBlockHeight } =
+        await requestZeroPercentPurchase(
+          {
+            fromPubkey: signer,
             amountUi: parsedAmount,
             cluster,
-          }),
-        },
-      );
+            offline: offlineMode,
+          },
+          { signal: nextSignal() }
+        );
 
-      if (!resp.ok) {
-        throw new Error(`Backend HTTP ${resp.status}`);
-      }
+      const intent: TransferIntent = {
+        kind: "zero-percent",
+        owner: signer,
+        lamports: solToLamports(parsedAmount),
+        destination: networkConfig.zeroRouteWallet ?? null,
+      };
 
-      const json = await resp.json();
-      if (!json.ok || !json.transaction) {
-        throw new Error(json.error || "Backend did not return a transaction.");
+      if (offlineMode) {
+        if (transactions.length !== 1) {
+          setError(
+            "Offline signing supports single-transaction purchases only; this one was split into several."
+          );
+          return;
+        }
+        setOfflineTx({
+          base64: transactions[0],
+          lastValidBlockHeight,
+          intent,
+        });
+        logAction("0% purchase exported for offline signing");
+        return;
       }
 
-      const tx = Transaction.from(
-        Buffer.from(json.transaction as string, "base64"),
-      );
+      const sigs = await pipeline.run({
+        transactions,
+        lastValidBlockHeight,
+        labels: { [signer]: "Your wallet" },
+        label: "0% route purchase",
+        priority,
+        intent,
+      });
 
-      tx.feePayer = wallet.publicKey;
-
-      const signed = await wallet.signTransaction(tx);
-      const sig = await connection.sendRawTransaction(signed.serialize());
-      await connection.confirmTransaction(sig, "confirmed");
-
-      setLastSig(sig);
-      logAction("0% route purchase submitted", sig);
-    } catch (err: any) {
+      setLastSig(sigs[sigs.length - 1]);
+      sigs.forEach((sig, i) =>
+        logAction(
+          sigs.length > 1
+            ? `0% route purchase submitted ${i + 1}/${sigs.length}`
+            : "0% route purchase submitted",
+          sig
+        )
+      );
+    } catch (err) {
+      if (isAbortError(err)) return;
+      if (err instanceof SigningCancelledError) {
+        setError(err.message);
+        logAction("0% purchase cancelled at review");
+        return;
+      }
+      if (err instanceof PolicyViolationError) {
+        setError(err.message);
+        logAction("0% purchase blocked: transaction did not match the request");
+        return;
+      }
       console.error("0% purchase error:", err);
-      const msg =
-        (err && typeof err.message === "string" && err.message) ||
-        (typeof err === "string" && err) ||
-        "0% purchase failed.";
+      const msg = describeError(err, "0% purchase failed.");
       setError(msg);
       logAction(`0% purchase failed: ${msg}`);
     } finally {
@@ -127,8 +177,42 @@ return (
           />
         </label>
 
+        {!offlineMode && (
+          <PriorityFeeSelect value={priority} onChange={setPriority} />
+        )}
+
+        {!publicMode && (
+          <label className="offline-toggle">
+            <input
+              type="checkbox"
+              checked={offline}
+              onChange={(e) => setOffline(e.target.checked)}
+            />
+            Sign offline (export for multisig / cold wallet)
+          </label>
+        )}
+
+        {offlineMode && (
+          <label className="field">
+            <span className="field-label">Signer address</span>
+            <input
+              type="text"
+              placeholder={
+                wallet.publicKey?.toBase58() ??
+                "Address that will sign the transaction"
+              }
+              value={signerAddress}
+              onChange={(e) => setSignerAddress(e.target.value)}
+            />
+          </label>
+        )}
+
         <button type="submit" disabled={loading}>
-          {loading ? "Preparing 0% transaction…" : "Use 0% route"}
+          {loading
+            ? "Preparing 0% transaction…"
+            : offlineMode
+            ? "Build for offline signing"
+            : "Use 0% route"}
         </button>
       </form>
 
@@ -138,6 +222,22 @@ return (
         <strong>{cluster === "devnet" ? "devnet" : cluster}</strong>.
       </small>
 
+      {offlineMode && (
+        <OfflineSigningPanel
+          unsigned={offlineTx}
+          label="0% route purchase"
+          logAction={logAction}
+        />
+      )}
+
+      <TransactionReviewPanel
+        review={pipeline.review}
+        onApprove={pipeline.approve}
+        onCancel={pipeline.cancel}
+      />
+
+      <TxProgressSteps progress={pipeline.progress} />
+
       {error && <div className="status-error">Error: {error}</div>}
 
       {lastSig && (
@@ -147,7 +247,7 @@ return (
           </div>
           <div className="wallet-overview-link">
             <a
-              href={`${explorerBaseUrl}/tx/${lastSig}?cluster=${cluster}`}
+              href={explorerTxUrl(networkConfig, lastSig)}
               target="_blank"
               rel="noreferrer"
             >
@@ -0,0 +1,73 @@
+// src/components/RecipientInput.tsx
+import { useId } from "react";
+import { useNetwork } from "../networkContext";
+import {
+  findEntry,
+  findLookalikes,
+  useAddressBook,
+} from "../lib/addressBook";
+import { shortAddress } from "../lib/format";
+
+type RecipientInputProps = {
+  id?: string;
+  className?: string;
+  placeholder?: string;
+  value: string;
+  onChange: (value: string) => void;
+};
+
+// Address input that suggests saved recipients for the active network, names
+// the one entered and warns when it merely resembles a saved address.
+function RecipientInput({
+  id,
+  className,
+  placeholder,
+  value,
+  onChange,
+}: RecipientInputProps) {
+  const { networkName } = useNetwork();
+  const book = useAddressBook(networkName);
+  const listId = useId();
+
+  const match = value ? findEntry(book, value) : null;
+  const lookalikes = value && !match ? findLookalikes(book, value) : [];
+
+  return (
+    <>
+      <input
+        id={id}
+        type="text"
+        className={className}
+        placeholder={placeholder}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        list={book.length > 0 ? listId : undefined}
+        autoComplete="off"
+      />
+      {book.length > 0 && (
+        <datalist id={listId}>
+          {book.map((entry) => (
+            <option key={entry.id} value={entry.address}>
+              {entry.label}
+            </option>
+          ))}
+        </datalist>
+      )}
+      {match && (
+        <small className="address-book-match">
+          Saved as “{match.label}”{match.note ? ` · ${match.note}` : ""}
+        </small>
+      )}
+      {lookalikes.map((entry) => (
+        <div key={entry.id} className="card-warning">
+          This address looks like your saved “{entry.label}” (
+          {shortAddress(entry.address)}) but is a different address. Scam
+          transfers plant lookalikes in your history; compare every character
+          before sending.
+        </div>
+      ))}
+    </>
+  );
+}
+
+export default RecipientInput;
@@ -0,0 +1,52 @@
+// src/components/RecipientRiskList.tsx
+import type { RecipientCheck } from "../lib/useRecipientCheck";
+
+type RecipientRiskListProps = {
+  check: RecipientCheck;
+  // The field has content, so a parse error is worth showing.
+  touched: boolean;
+  acknowledged: boolean;
+  onAcknowledgedChange: (acknowledged: boolean) => void;
+};
+
+// Inline result of the recipient checks. Risks that usually lose the funds
+// need an explicit acknowledgement before the send goes ahead.
+function RecipientRiskList({
+  check,
+  touched,
+  acknowledged,
+  onAcknowledgedChange,
+}: RecipientRiskListProps) {
+  if (check.error) {
+    return touched ? <div className="status-error">{check.error}</div> : null;
+  }
+
+  const hasDanger = check.risks.some((r) => r.severity === "danger");
+  return (
+    <>
+      {check.risks.map((risk) =>
+        risk.severity === "info" ? (
+          <small key={risk.kind} className="tx-review-meta">
+            {risk.message}
+          </small>
+        ) : (
+          <div key={risk.kind} className="card-warning">
+            {risk.message}
+          </div>
+        )
+      )}
+      {hasDanger && (
+        <label className="offline-toggle">
+          <input
+            type="checkbox"
+            checked={acknowledged}
+            onChange={(e) => onAcknowledgedChange(e.target.checked)}
+          />
+          I understand the risk and want to send to this address anyway
+        </label>
+      )}
+    </>
+  );
+}
+
+export default RecipientRiskList;
@@ -0,0 +1,78 @@
+// src/components/RpcHealthCard.tsx
+import { useState, useSyncExternalStore } from "react";
+import { useNetwork } from "../networkContext";
+
+function formatChecked(ts: number | null): string {
+  if (!ts) return "not probed yet";
+  return new Date(ts).toLocaleTimeString(undefined, {
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+}
+
+// Dev-view panel showing which RPC endpoint is serving the active network
+// and how healthy every endpoint in its pool looks.
+function RpcHealthCard() {
+  const { networkConfig, rpcPool } = useNetwork();
+  const snapshot = useSyncExternalStore(rpcPool.subscribe, rpcPool.getSnapshot);
+  const [probing, setProbing] = useState(false);
+
+  const handleProbe = async () => {
+    setProbing(true);
+    try {
+      await rpcPool.probeAll();
+    } finally {
+      setProbing(false);
+    }
+  };
+
+  return (
+    <section className="card">
+      <h2>RPC endpoints</h2>
+      <small>
+        Pool for <strong>{networkConfig.label}</strong>. Calls go to the first
+        healthy endpoint and fail over down the list.
+      </small>
+
+      <ul className="rpc-health-list">
+        {snapshot.endpoints.map((endpoint) => {
+          const isActive = endpoint.url === snapshot.activeUrl;
+          return (
+            <li key={endpoint.url} className="rpc-health-row">
+              <div className="rpc-health-url">
+                <span
+                  className={`status-dot ${
+                    endpoint.healthy ? "status-dot--on" : "status-dot--warn"
+                  }`}
+                />
+                <code>{endpoint.url}</code>
+                {isActive && <span className="card-pill">active</span>}
+              </div>
+              <div className="rpc-health-meta">
+                {endpoint.latencyMs != null
+                  ? `${endpoint.latencyMs} ms`
+                  : "— ms"}
+                {" · "}
+                {endpoint.slotsBehind != null
+                  ? `${endpoint.slotsBehind} slots behind`
+                  : "slot unknown"}
+                {" · "}
+                checked {formatChecked(endpoint.lastCheckedAt)}
+              </div>
+              {endpoint.lastError && (
+                <div className="status-error">{endpoint.lastError}</div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <button type="button" onClick={handleProbe} disabled={probing}>
+        {probing ? "Probing…" : "Probe now"}
+      </button>
+    </section>
+  );
+}
+
+export default RpcHealthCard;
@@ -0,0 +1,109 @@
+// src/components/SessionChip.tsx
+import { useEffect, useState } from "react";
+import { useWallet } from "@solana/wallet-adapter-react";
+import { useNetwork } from "../networkContext";
+import { describeError } from "../lib/errors";
+import {
+  clearSession,
+  signInWithSolana,
+  signOut,
+  useSession,
+} from "../lib/session";
+
+function formatExpiry(expiresAt: number): string {
+  const expires = new Date(expiresAt);
+  const sameDay = expires.toDateString() === new Date().toDateString();
+  return sameDay
+    ? expires.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+    : expires.toLocaleString([], {
+        month: "short",
+        day: "numeric",
+        hour: "2-digit",
+        minute: "2-digit",
+      });
+}
+
+// Header control for the backend session: sign in with the connected wallet,
+// see until when the session holds, sign out.
+function SessionChip() {
+  const wallet = useWallet();
+  const { networkName } = useNetwork();
+  const session = useSession();
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const address = wallet.publicKey?.toBase58() ?? null;
+
+  // A session only ever speaks for the wallet that signed it, on the network
+  // it was signed for.
+  useEffect(() => {
+    if (!session) return;
+    if (
+      (address && session.address !== address) ||
+      session.cluster !== networkName
+    ) {
+      clearSession();
+    }
+  }, [session, address, networkName]);
+
+  if (!address) return null;
+
+  const handleSignIn = async () => {
+    if (!wallet.signMessage) return;
+    setBusy(true);
+    setError(null);
+    try {
+      await signInWithSolana({
+        address,
+        cluster: networkName,
+        signMessage: wallet.signMessage,
+      });
+    } catch (err) {
+      console.error("Sign-in error:", err);
+      setError(describeError(err, "Sign-in failed."));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    setBusy(true);
+    await signOut();
+    setBusy(false);
+  };
+
+  if (session?.address === address && session.cluster === networkName) {
+    return (
+      <div className="session-chip session-chip-active">
+        <span>Signed in · until {formatExpiry(session.expiresAt)}</span>
+        <button
+          type="button"
+          className="session-chip-action"
+          disabled={busy}
+          onClick={handleSignOut}
+        >
+          Sign out
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <button
+      type="button"
+      className={`session-chip ${error ? "session-chip-error" : ""}`}
+      disabled={busy || !wallet.signMessage}
+      onClick={handleSignIn}
+      title={
+        error ??
+        (wallet.signMessage
+          ? "Sign a message to prove this wallet is yours to the AKSOL backend"
+          : "This wallet cannot sign messages")
+      }
+    >
+      {busy ? "Signing in…" : error ? "Sign-in failed · retry" : "Sign in"}
+    </button>
+  );
+}
+
+export default SessionChip;
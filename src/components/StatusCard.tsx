@@ -1,14 +1,47 @@
 // src/components/StatusCard.tsx
 import { useState } from "react";
+import { useConnection } from "@solana/wallet-adapter-react";
+import { explorerAddressUrl, type NetworkName } from "../networkConfig";
+import { useNetwork } from "../networkContext";
+import { fetchStatus, type StatusResponse } from "../lib/api";
+import { describeError } from "../lib/errors";
+import { isAbortError, useRequestSignal } from "../lib/request";
+import {
+  findMismatches,
+  inspectOnChain,
+  type OnChainInspection,
+} from "../lib/onchainInspect";
+import { formatBps } from "../lib/aksolConfig";
+import { formatTokenAmount, shortAddress } from "../lib/format";
+import type { TransferFeeConfig } from "../lib/tokens";
 
-type StatusData = {
-  ok?: boolean;
-  cluster?: string;
-  backendVersion?: string;
-  solanaVersion?: string;
-  error?: string;
-  [key: string]: any;
-};
+// "Transfer fee 1% (max 5,000) · 2% before epoch 610 · 12.5 withheld".
+function describeTransferFee(
+  config: TransferFeeConfig,
+  decimals: number
+): string {
+  const { older, newer, withheldAmount } = config;
+  const parts = [
+    `Transfer fee ${formatBps(newer.basisPoints)} (max ${formatTokenAmount(
+      newer.maximumFee,
+      decimals
+    )})`,
+  ];
+  if (
+    older.basisPoints !== newer.basisPoints ||
+    older.maximumFee !== newer.maximumFee
+  ) {
+    parts.push(
+      `${formatBps(older.basisPoints)} before epoch ${newer.epoch.toString()}`
+    );
+  }
+  if (withheldAmount > 0n) {
+    parts.push(
+      `${formatTokenAmount(withheldAmount, decimals)} withheld in the mint`
+    );
+  }
+  return parts.join(" · ");
+}
 
 type StatusCardProps = {
   publicMode: boolean;
@@ -17,30 +50,54 @@ type StatusCardProps = {
 
 function StatusCard({ publicMode, logAction }: StatusCardProps) {
   const [loading, setLoading] = useState(false);
-  const [data, setData] = useState<StatusData | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const [checkedOn, setCheckedOn] = useState<NetworkName | null>(null);
+  const [checkedData, setData] = useState<StatusResponse | null>(null);
+  const [checkedError, setError] = useState<string | null>(null);
   const [showDebug, setShowDebug] = useState(false);
+  const [checkedInspection, setInspection] =
+    useState<OnChainInspection | null>(null);
+  const [checkedChainError, setChainError] = useState<string | null>(null);
+  const { networkConfig } = useNetwork();
 
-  const backendBaseUrl =
-    import.meta.env.VITE_BACKEND_BASE_URL || "http://localhost:8080";
+  // Results are only shown on the cluster they were checked on.
+  const current = checkedOn === networkConfig.name;
+  const data = current ? checkedData : null;
+  const error = current ? checkedError : null;
+  const inspection = current ? checkedInspection : null;
+  const chainError = current ? checkedChainError : null;
+  const { connection } = useConnection();
+  const nextSignal = useRequestSignal();
 
   const handleCheckStatus = async () => {
     setLoading(true);
+    if (!current) {
+      setCheckedOn(networkConfig.name);
+      setData(null);
+      setInspection(null);
+    }
     setError(null);
-    try {
-      const resp = await fetch(`${backendBaseUrl}/aksol/status`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          cluster: import.meta.env.VITE_SOLANA_CLUSTER || "devnet",
-        }),
-      });
-
-      if (!resp.ok) {
-        throw new Error(`Backend HTTP ${resp.status}`);
+    setChainError(null);
+    const signal = nextSignal();
+
+    // The chain check does not depend on the backend being up.
+    const onChain = inspectOnChain(connection, networkConfig).then(
+      (result) => {
+        if (!signal.aborted) setInspection(result);
+        return result;
+      },
+      (err) => {
+        if (!signal.aborted) {
+          setInspection(null);
+          setChainError(describeError(err, "On-chain check failed."));
+        }
+        return null;
       }
+    );
 
-      const json = (await resp.json()) as StatusData;
+    let status: StatusResponse | null = null;
+    try {
+      const json = await fetchStatus({ cluster: networkConfig.name }, { signal });
+      status = json;
       setData(json);
 
       if (json.ok) {
@@ -48,20 +105,42 @@ function StatusCard({ publicMode, logAction }: StatusCardProps) {
       } else {
         logAction("System status: backend reported an error");
       }
-    } catch (err: any) {
+    } catch (err) {
+      if (isAbortError(err)) return;
       console.error("Status check error:", err);
-      const msg =
-        (err && typeof err.message === "string" && err.message) ||
-        (typeof err === "string" && err) ||
-        "Failed to reach backend.";
+      const msg = describeError(err, "Failed to reach backend.");
       setError(msg);
       logAction(`System status check failed: ${msg}`);
     } finally {
-      setLoading(false);
+      const result = await onChain;
+      // A newer check owns the spinner now.
+      if (!signal.aborted) setLoading(false);
+      if (result && !signal.aborted) {
+        const count = findMismatches(networkConfig, result, status).length;
+        logAction(
+          count === 0
+            ? "On-chain check: program, mint and config match"
+            : `On-chain check: ${count} issue${count === 1 ? "" : "s"} found`
+        );
+      }
     }
   };
 
   const isOk = data?.ok === true;
+  const mismatches = inspection
+    ? findMismatches(networkConfig, inspection, data)
+    : [];
+  const addressLink = (address: string) => (
+    <a
+      href={explorerAddressUrl(networkConfig, address)}
+      target="_blank"
+      rel="noreferrer"
+    >
+      <code>{shortAddress(address)}</code>
+    </a>
+  );
+  const authority = (address: string | null, none: string) =>
+    address ? addressLink(address) : <em>{none}</em>;
 
   return (
     <section className="card">
@@ -70,7 +149,7 @@ function StatusCard({ publicMode, logAction }: StatusCardProps) {
         Check that the AKSOL backend and Solana node are online before you demo.
         This runs against the current cluster
         {" ("}
-        {import.meta.env.VITE_SOLANA_CLUSTER || "devnet"}
+        {networkConfig.name}
         {")"}.
       </small>
 
@@ -78,7 +157,8 @@ function StatusCard({ publicMode, logAction }: StatusCardProps) {
         {loading ? "Checking status…" : "Run status check"}
       </button>
       <small>
-        Calls <code>POST /aksol/status</code> on the AKSOL backend.
+        Calls <code>POST /aksol/status</code> on the AKSOL backend and reads
+        the program, mint and config accounts from the cluster.
       </small>
 
       {isOk && (
@@ -97,6 +177,123 @@ function StatusCard({ publicMode, logAction }: StatusCardProps) {
         </div>
       )}
 
+      {chainError && <div className="status-error">Error: {chainError}</div>}
+
+      {inspection && (
+        <div className="chain-inspect">
+          <div className="tx-review-title">On-chain configuration</div>
+          <dl className="chain-inspect-list">
+            <dt>Program</dt>
+            <dd>
+              {inspection.program.value ? (
+                <>
+                  {addressLink(networkConfig.programId)}
+                  {inspection.program.value.executable
+                    ? " · executable"
+                    : " · not executable"}
+                  <br />
+                  Upgrade authority:{" "}
+                  {authority(
+                    inspection.program.value.upgradeAuthority,
+                    "none (immutable)"
+                  )}
+                  {inspection.program.value.lastDeploySlot != null && (
+                    <>
+                      {" "}
+                      · deployed at slot{" "}
+                      {inspection.program.value.lastDeploySlot.toLocaleString()}
+                    </>
+                  )}
+                </>
+              ) : (
+                <em>{inspection.program.error ?? "not configured"}</em>
+              )}
+            </dd>
+
+            <dt>Mint</dt>
+            <dd>
+              {inspection.mint.value ? (
+                <>
+                  {addressLink(networkConfig.mint)}
+                  {inspection.mint.value.isToken2022 && " · Token-2022"}
+                  <br />
+                  Decimals {inspection.mint.value.decimals} · supply{" "}
+                  {formatTokenAmount(
+                    inspection.mint.value.supply,
+                    inspection.mint.value.decimals
+                  )}
+                  <br />
+                  Mint authority:{" "}
+                  {authority(
+                    inspection.mint.value.mintAuthority,
+                    "none (fixed supply)"
+                  )}{" "}
+                  · freeze authority:{" "}
+                  {authority(inspection.mint.value.freezeAuthority, "none")}
+                  {inspection.mint.value.extensions.names.length > 0 && (
+                    <>
+                      <br />
+                      Extensions:{" "}
+                      {inspection.mint.value.extensions.names.join(", ")}
+                    </>
+                  )}
+                  {inspection.mint.value.extensions.transferFee && (
+                    <>
+                      <br />
+                      {describeTransferFee(
+                        inspection.mint.value.extensions.transferFee,
+                        inspection.mint.value.decimals
+                      )}
+                    </>
+                  )}
+                  {inspection.mint.value.extensions.metadata && (
+                    <>
+                      <br />
+                      Metadata: {inspection.mint.value.extensions.metadata.name}{" "}
+                      ({inspection.mint.value.extensions.metadata.symbol})
+                    </>
+                  )}
+                </>
+              ) : (
+                <em>{inspection.mint.error ?? "not configured"}</em>
+              )}
+            </dd>
+
+            <dt>Config</dt>
+            <dd>
+              {inspection.config.value && networkConfig.configPda ? (
+                <>
+                  {addressLink(networkConfig.configPda)}
+                  <br />
+                  Authority: {addressLink(inspection.config.value.authority)}{" "}
+                  · tax {formatBps(inspection.config.value.taxBps)}
+                  {inspection.config.value.destinations.map((d) => (
+                    <div key={d.key}>
+                      {d.label} {formatBps(d.shareBps)} of tax →{" "}
+                      {addressLink(d.wallet)}
+                    </div>
+                  ))}
+                </>
+              ) : (
+                <em>{inspection.config.error ?? "not configured"}</em>
+              )}
+            </dd>
+          </dl>
+
+          {mismatches.length === 0 ? (
+            <div className="status-ok">
+              Backend, app config and chain agree.
+            </div>
+          ) : (
+            <ul className="status-error chain-inspect-issues">
+              {mismatches.map((m) => (
+                <li key={m}>{m}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
       {data && (
         <div style={{ marginTop: "0.5rem" }}>
           <button
@@ -113,7 +310,7 @@ function StatusCard({ publicMode, logAction }: StatusCardProps) {
           </button>
           {showDebug && (
             <pre style={{ marginTop: "0.25rem", fontSize: "0.75rem" }}>
-              {JSON.stringify(data, null, 2)}
+              {JSON.stringify(data.raw, null, 2)}
             </pre>
           )}
         </div>
@@ -127,8 +324,8 @@ function StatusCard({ publicMode, logAction }: StatusCardProps) {
             color: "#9ca3af",
           }}
         >
-          <strong>Note:</strong> This is a devnet demo environment. On mainnet,
-          this card will also confirm the AKSOL program and mint configuration.
+          <strong>Note:</strong> The status check also confirms the AKSOL
+          program, mint and config accounts directly on-chain.
         </p>
       )}
     </section>
@@ -1,28 +1,45 @@
 import React, { useState, useMemo, type FormEvent } from "react";
+import { useWallet } from "@solana/wallet-adapter-react";
+import { useNetwork } from "../networkContext";
+import { BackendError, submitStorefrontPurchase } from "../lib/api";
+import { isAbortError, useRequestSignal } from "../lib/request";
+import { useAksolMint } from "../lib/useAksolMint";
+import { useRecipientCheck } from "../lib/useRecipientCheck";
+import RecipientInput from "./RecipientInput";
+import RecipientRiskList from "./RecipientRiskList";
 
 type StorefrontPurchaseCardProps = {
-  isMainnet: boolean;
   publicMode: boolean;
   logAction: (label: string, signature?: string) => void;
 };
 
-// Backend base URL (local dev falls back to localhost)
-const BACKEND_BASE_URL =
-  import.meta.env.VITE_BACKEND_BASE_URL || "http://localhost:8080";
-
 // 🔧 TEMP ESTIMATE ONLY – update this to a better hint or wire to live price later.
 const EST_AKSOL_PER_SOL_HINT = 100000; // 1 SOL ≈ 100,000 AKSOL (example only)
 
 const StorefrontPurchaseCard: React.FC<StorefrontPurchaseCardProps> = ({
-  isMainnet,
   publicMode,
   logAction,
 }) => {
+  const { networkName, isMainnet } = useNetwork();
+  const nextSignal = useRequestSignal();
+  const wallet = useWallet();
   const [open, setOpen] = useState(false);
   const [solAmount, setSolAmount] = useState("");
   const [recipient, setRecipient] = useState("");
   const [note, setNote] = useState("");
   const [submitting, setSubmitting] = useState(false);
+  const [acceptedRecipient, setAcceptedRecipient] = useState<string | null>(
+    null
+  );
+
+  const aksolMint = useAksolMint();
+  // Ordering AKSOL for your own wallet is the normal case, so no owner.
+  const recipientCheck = useRecipientCheck(
+    recipient,
+    null,
+    aksolMint.status === "ready" ? aksolMint.mint : null
+  );
+  const risksAccepted = acceptedRecipient === recipient;
 
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
@@ -37,11 +54,35 @@ const StorefrontPurchaseCard: React.FC<StorefrontPurchaseCardProps> = ({
       return;
     }
 
+    // The order is placed by the connected (signed-in) wallet; the recipient
+    // may be any wallet.
+    const buyer = wallet.publicKey?.toBase58();
+    if (!buyer) {
+      alert("Connect your wallet before submitting a storefront request.");
+      return;
+    }
+
     if (!solAmount || !recipient) {
       alert("Please enter a SOL amount and recipient wallet address.");
       return;
     }
 
+    if (recipientCheck.error) {
+      alert(recipientCheck.error);
+      return;
+    }
+    if (recipientCheck.checking) {
+      alert("Still checking the recipient address; try again in a moment.");
+      return;
+    }
+    if (
+      recipientCheck.risks.some((r) => r.severity === "danger") &&
+      !risksAccepted
+    ) {
+      alert("Confirm the recipient warnings before submitting.");
+      return;
+    }
+
     const parsedSol = parseFloat(solAmount);
     if (!Number.isFinite(parsedSol) || parsedSol <= 0) {
       alert("Please enter a valid positive SOL amount.");
@@ -51,36 +92,19 @@ const StorefrontPurchaseCard: React.FC<StorefrontPurchaseCardProps> = ({
     setSubmitting(true);
     try {
       // Fire the backend request so you get a reliable log
-      const body = {
-        fromPubkey: recipient,               // treat recipient as the customer wallet
-        amountSol: parsedSol,
-        estimatedAksol:
-          parsedSol > 0 ? parsedSol * EST_AKSOL_PER_SOL_HINT : null,
-        note: note.trim() || null,
-        cluster: "mainnet-beta",
-      };
-
-      const resp = await fetch(
-        `${BACKEND_BASE_URL}/aksol/storefront-purchase`,
+      await submitStorefrontPurchase(
         {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify(body),
-        }
+          fromPubkey: buyer,
+          recipientPubkey: recipient,
+          amountSol: parsedSol,
+          estimatedAksol:
+            parsedSol > 0 ? parsedSol * EST_AKSOL_PER_SOL_HINT : null,
+          note: note.trim() || null,
+          cluster: "mainnet-beta",
+        },
+        { signal: nextSignal() }
       );
 
-      const data = await resp.json().catch(() => ({} as any));
-
-      if (!resp.ok || !data.ok) {
-        const msg =
-          (data as any)?.error ||
-          `Storefront request failed (status ${resp.status}). Please try again or contact support.`;
-        console.error("Storefront purchase error:", data);
-        logAction("Storefront request failed (mainnet)");
-        alert(msg);
-        return;
-      }
-
       // Frontend activity log
       logAction(
         `Storefront request: ${solAmount} SOL → AKSOL for ${recipient} (manual fulfillment)`
@@ -96,6 +120,16 @@ const StorefrontPurchaseCard: React.FC<StorefrontPurchaseCardProps> = ({
       setRecipient("");
       setNote("");
     } catch (err) {
+      if (isAbortError(err)) return;
+      if (err instanceof BackendError && err.status !== 0) {
+        const msg =
+          err.serverMessage ||
+          `Storefront request failed (status ${err.status}). Please try again or contact support.`;
+        console.error("Storefront purchase error:", err);
+        logAction("Storefront request failed (mainnet)");
+        alert(msg);
+        return;
+      }
       console.error("Error submitting storefront purchase:", err);
       logAction("Storefront request error (mainnet)");
       alert("Unexpected error submitting storefront request. Please try again.");
@@ -116,7 +150,7 @@ const StorefrontPurchaseCard: React.FC<StorefrontPurchaseCardProps> = ({
 
   const envLabel = isMainnet
     ? "MAINNET – live SOL & AKSOL balances."
-    : "DEVNET – storefront is disabled here (for now).";
+    : `${networkName.toUpperCase()} – storefront is disabled here (for now).`;
 
   const envClassName = isMainnet
     ? "storefront-env-label storefront-env-mainnet"
@@ -200,14 +234,21 @@ const StorefrontPurchaseCard: React.FC<StorefrontPurchaseCardProps> = ({
               <label htmlFor="storefront-recipient">
                 AKSOL recipient (your wallet address)
               </label>
-              <input
+              <RecipientInput
                 id="storefront-recipient"
-                type="text"
                 placeholder="Paste your Phantom wallet address here"
                 value={recipient}
-                onChange={(e) => setRecipient(e.target.value.trim())}
+                onChange={(value) => setRecipient(value.trim())}
                 className="storefront-input"
               />
+              <RecipientRiskList
+                check={recipientCheck}
+                touched={recipient !== ""}
+                acknowledged={risksAccepted}
+                onAcknowledgedChange={(accepted) =>
+                  setAcceptedRecipient(accepted ? recipient : null)
+                }
+              />
               <small className="storefront-hint">
                 This is where your AKSOL will be sent after the order is
                 manually fulfilled.
@@ -258,7 +299,7 @@ const StorefrontPurchaseCard: React.FC<StorefrontPurchaseCardProps> = ({
                 ? "Submitting request..."
                 : isMainnet
                 ? "Submit AKSOL purchase request"
-                : "Storefront disabled on devnet"}
+                : `Storefront disabled on ${networkName}`}
             </button>
           </div>
         </form>
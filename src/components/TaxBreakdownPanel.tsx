@@ -0,0 +1,134 @@
+// src/components/TaxBreakdownPanel.tsx
+import { explorerAddressUrl } from "../networkConfig";
+import { useNetwork } from "../networkContext";
+import {
+  computeTaxBreakdown,
+  formatBps,
+  type TaxDestination,
+} from "../lib/aksolConfig";
+import type { AksolConfigState } from "../lib/useAksolConfig";
+import { transferFeeFor, type TransferFee } from "../lib/tokens";
+import { formatTokenAmount, shortAddress } from "../lib/format";
+
+type TaxBreakdownPanelProps = {
+  config: AksolConfigState;
+  // Gross amount in raw token units, or null while the input is empty or
+  // invalid.
+  gross: bigint | null;
+  decimals: number;
+  unit: string;
+  // Rent for the recipient's token account when the send has to create it.
+  accountRentLamports?: number | null;
+  // Token-2022 transfer fee on the mint, withheld from every transfer.
+  transferFee?: TransferFee | null;
+};
+
+// Live gross → tax → net breakdown for the taxed send form, using the rate
+// and wallets from the on-chain config when it can be read.
+function TaxBreakdownPanel({
+  config,
+  gross,
+  decimals,
+  unit,
+  accountRentLamports,
+  transferFee,
+}: TaxBreakdownPanelProps) {
+  const { networkConfig } = useNetwork();
+
+  const fromChain = config.status === "ready";
+  const taxBps = fromChain ? config.config.taxBps : networkConfig.taxBps;
+  const destinations: TaxDestination[] = fromChain
+    ? config.config.destinations
+    : [];
+  const breakdown =
+    gross != null && gross > 0n
+      ? computeTaxBreakdown(gross, taxBps, destinations)
+      : null;
+  const amount = (value: bigint) =>
+    `${formatTokenAmount(value, decimals)} ${unit}`;
+  // The mint withholds its fee from what the recipient's account is
+  // credited; the AKSOL tax above is computed on the gross as before.
+  const fee = transferFee && transferFee.basisPoints > 0 ? transferFee : null;
+  const withheld = breakdown && fee ? transferFeeFor(fee, breakdown.net) : 0n;
+
+  return (
+    <div className="tax-breakdown">
+      <div className="tax-breakdown-source">
+        {config.status === "ready" && "Tax settings from the on-chain config."}
+        {config.status === "loading" && "Loading on-chain config…"}
+        {config.status === "unconfigured" &&
+          `No config account set for ${networkConfig.label}; using the default ${formatBps(
+            taxBps
+          )}.`}
+        {config.status === "error" &&
+          `${config.error} Using the default ${formatBps(taxBps)}.`}
+      </div>
+
+      {breakdown ? (
+        <ul className="tx-review-list">
+          <li className="tx-review-row">
+            <span>You send</span>
+            <span>{amount(breakdown.gross)}</span>
+          </li>
+          <li className="tx-review-row">
+            <span>Tax ({formatBps(taxBps)})</span>
+            <span className="delta-out">−{amount(breakdown.tax)}</span>
+          </li>
+          {breakdown.shares.map(({ destination, amount: share }) => (
+            <li
+              key={destination.key}
+              className="tx-review-row tax-breakdown-share"
+            >
+              <span>
+                {destination.label} ({formatBps(destination.shareBps)} of tax)
+                <a
+                  className="tx-review-address"
+                  href={explorerAddressUrl(networkConfig, destination.wallet)}
+                  target="_blank"
+                  rel="noreferrer"
+                >
+                  {shortAddress(destination.wallet)}
+                </a>
+              </span>
+              <span>{amount(share)}</span>
+            </li>
+          ))}
+          {fee && (
+            <li className="tx-review-row">
+              <span>
+                Token transfer fee ({formatBps(fee.basisPoints)}, max{" "}
+                {amount(fee.maximumFee)})
+              </span>
+              <span className="delta-out">−{amount(withheld)}</span>
+            </li>
+          )}
+          <li className="tx-review-row">
+            <strong>Recipient receives</strong>
+            <strong className="delta-in">
+              {amount(breakdown.net - withheld)}
+            </strong>
+          </li>
+          {accountRentLamports != null && (
+            <li className="tx-review-row">
+              <span>New token account for the recipient (rent, paid by you)</span>
+              <span className="delta-out">
+                −{formatTokenAmount(BigInt(accountRentLamports), 9)} SOL
+              </span>
+            </li>
+          )}
+        </ul>
+      ) : (
+        <small className="tx-review-meta">
+          Enter an amount to see the tax breakdown.
+        </small>
+      )}
+      {breakdown && fee && (
+        <small className="tx-review-meta">
+          The mint's transfer fee is also withheld from each tax share.
+        </small>
+      )}
+    </div>
+  );
+}
+
+export default TaxBreakdownPanel;
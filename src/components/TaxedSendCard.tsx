@@ -1,135 +1,253 @@
 import type { FormEvent } from "react";
 import { useState } from "react";
-import { useConnection, useWallet } from "@solana/wallet-adapter-react";
-import { Transaction } from "@solana/web3.js";
-import type { AksolNetworkConfig } from "../networkConfig";
+import { useWallet } from "@solana/wallet-adapter-react";
+import { PublicKey } from "@solana/web3.js";
+import { explorerTxUrl } from "../networkConfig";
+import { useNetwork } from "../networkContext";
+import { BackendError, requestTaxedSend } from "../lib/api";
+import { describeError } from "../lib/errors";
+import { isAbortError, useRequestSignal } from "../lib/request";
+import { SigningCancelledError } from "../lib/solanaTx";
+import { PolicyViolationError, type TransferIntent } from "../lib/txPolicy";
+import { formatBps } from "../lib/aksolConfig";
+import { associatedTokenAddress, uiToRawAmount } from "../lib/tokens";
+import { useAksolConfig } from "../lib/useAksolConfig";
+import { useAksolMint } from "../lib/useAksolMint";
+import { useRecipientCheck } from "../lib/useRecipientCheck";
+import { useTransactionPipeline } from "../lib/useTransactionPipeline";
+import type { PriorityLevel } from "../lib/priorityFee";
+import TxProgressSteps from "./TxProgressSteps";
+import PriorityFeeSelect from "./PriorityFeeSelect";
+import TransactionReviewPanel from "./TransactionReviewPanel";
+import TaxBreakdownPanel from "./TaxBreakdownPanel";
+import RecipientInput from "./RecipientInput";
+import RecipientRiskList from "./RecipientRiskList";
+import OfflineSigningPanel, { type UnsignedExport } from "./OfflineSigningPanel";
 
 type TaxedSendCardProps = {
   publicMode: boolean;
   logAction: (label: string, signature?: string) => void;
-  isMainnet: boolean;
-  networkConfig: AksolNetworkConfig;
   walletPublicKey: string | null;
 };
 
 function TaxedSendCard({
   publicMode,
   logAction,
-  isMainnet,
-  networkConfig,
   walletPublicKey,
 }: TaxedSendCardProps) {
-  const { connection } = useConnection();
+  const { networkConfig, isMainnet } = useNetwork();
+  const nextSignal = useRequestSignal();
   const wallet = useWallet();
+  const pipeline = useTransactionPipeline();
+  const aksolConfig = useAksolConfig();
+  const aksolMint = useAksolMint();
 
   const [toAddress, setToAddress] = useState("");
   const [amountUi, setAmountUi] = useState("");
+  const [priority, setPriority] = useState<PriorityLevel>("normal");
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [txSig, setTxSig] = useState<string | null>(null);
+  // Dev-view sign-only mode for multisig / cold-wallet operators.
+  const [offline, setOffline] = useState(false);
+  const [signerAddress, setSignerAddress] = useState("");
+  const [offlineTx, setOfflineTx] = useState<UnsignedExport | null>(null);
+  // Recipient whose flagged risks the user accepted; editing it resets this.
+  const [acceptedRecipient, setAcceptedRecipient] = useState<string | null>(
+    null
+  );
 
-  const backendBaseUrl =
-    import.meta.env.VITE_BACKEND_BASE_URL || "http://localhost:8080";
-  const explorerBaseUrl =
-    import.meta.env.VITE_EXPLORER_BASE_URL || "https://explorer.solana.com";
-
-  const cluster = isMainnet ? "mainnet-beta" : "devnet";
+  const cluster = networkConfig.name;
+  const offlineMode = !publicMode && offline;
+  // The on-chain config wins over the env default once it has loaded.
+  const onChainConfig =
+    aksolConfig.status === "ready" ? aksolConfig.config : null;
+  const taxBps = onChainConfig?.taxBps ?? networkConfig.taxBps;
+  const taxLabel = formatBps(taxBps);
+  const mint = aksolMint.status === "ready" ? aksolMint.mint : null;
+  const transferFee =
+    aksolMint.status === "ready" ? aksolMint.transferFee : null;
+  const grossRaw = mint ? uiToRawAmount(amountUi, mint.decimals) : null;
+  const recipientCheck = useRecipientCheck(
+    toAddress,
+    offlineMode ? signerAddress.trim() || walletPublicKey : walletPublicKey,
+    mint
+  );
+  const recipientAccount = recipientCheck.tokenAccount;
+  const risksAccepted = acceptedRecipient === toAddress.trim();
 
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
     setError(null);
     setTxSig(null);
+    setOfflineTx(null);
+    pipeline.reset();
 
-    if (!wallet.connected || !wallet.publicKey) {
+    if (!offlineMode && (!wallet.connected || !wallet.publicKey)) {
       const msg = "Connect a wallet before sending with tax.";
       setError(msg);
       logAction("Taxed send failed: no wallet connected");
       return;
     }
 
-    if (!wallet.signTransaction) {
-      const msg = "Current wallet does not support transaction signing.";
-      setError(msg);
-      logAction("Taxed send failed: wallet cannot sign");
+    // Offline mode signs elsewhere, so the sender can be any address.
+    const signer = offlineMode
+      ? signerAddress.trim() || wallet.publicKey?.toBase58() || ""
+      : wallet.publicKey?.toBase58() ?? "";
+    try {
+      new PublicKey(signer);
+    } catch {
+      setError("Signer address is not a valid Solana address.");
       return;
     }
 
-    const parsedAmount = Number(amountUi);
+    if (!mint) {
+      setError(
+        aksolMint.status === "error"
+          ? aksolMint.error
+          : aksolMint.status === "unconfigured"
+          ? `No AKSOL mint is configured for ${networkConfig.label}.`
+          : "AKSOL mint is still loading; try again in a moment."
+      );
+      return;
+    }
 
-    if (!Number.isFinite(parsedAmount) || parsedAmount <= 0) {
-      const msg = "Amount must be a positive number.";
+    if (grossRaw == null || grossRaw <= 0n) {
+      const msg = `Amount must be a positive number with at most ${mint.decimals} decimals.`;
       setError(msg);
       return;
     }
 
-    if (!toAddress || toAddress.trim().length < 8) {
-      const msg = "AKSOL recipient address looks incomplete.";
-      setError(msg);
+    const recipient = toAddress.trim();
+    if (recipientCheck.error) {
+      setError(recipientCheck.error);
+      return;
+    }
+    if (recipientCheck.checking) {
+      setError("Still checking the recipient; try again in a moment.");
+      return;
+    }
+    if (
+      recipientCheck.risks.some((r) => r.severity === "danger") &&
+      !risksAccepted
+    ) {
+      setError("Confirm the recipient warnings before sending.");
       return;
     }
 
     setLoading(true);
 
     try {
-      const resp = await fetch(`${backendBaseUrl}/aksol/send-taxed-tx`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          fromPubkey: wallet.publicKey.toBase58(),
-          toPubkey: toAddress.trim(),
-          amountUi: parsedAmount,
+      // Never retried: the backend may broadcast on its side.
+      const result = await requestTaxedSend(
+        {
+          fromPubkey: signer,
+          toPubkey: recipient,
+          amountUi: Number(amountUi),
           cluster,
-        }),
-      });
-
-      if (!resp.ok) {
-        throw new Error(`Backend HTTP ${resp.status}`);
-      }
-
-      const data = await resp.json();
-      console.log("Backend /aksol/send-taxed-tx response:", data);
+          mint: mint.address,
+          amountRaw: grossRaw.toString(),
+          decimals: mint.decimals,
+          offline: offlineMode,
+        },
+        { signal: nextSignal() }
+      );
 
       // CASE A: backend already broadcasted and returns a signature
-      let signature: string | undefined =
-        data.signature ||
-        data.txSignature ||
-        data.transactionSignature ||
-        data.sig;
-
-      if (signature) {
-        setTxSig(signature);
-        const modeLabel = isMainnet ? "MAINNET" : "devnet";
-        logAction(`Taxed send (${modeLabel})`, signature);
+      if (result.kind === "broadcast") {
+        setTxSig(result.signature);
+        const modeLabel = isMainnet ? "MAINNET" : networkConfig.name;
+        logAction(`Taxed send (${modeLabel})`, result.signature);
         return;
       }
 
-      // CASE B: backend returns a serialized transaction we must sign+send
-      const base64Tx: string | undefined =
-        data.transaction || data.tx || data.txBase64 || data.serializedTx;
-
-      if (!base64Tx) {
-        throw new Error(
-          "Backend did not return a signature or transaction. Check console logs for full response."
-        );
+      const sourceAccount = associatedTokenAddress(signer, mint);
+      const recipientTokenAccount = associatedTokenAddress(recipient, mint);
+      const intent: TransferIntent = {
+        kind: "taxed-token-send",
+        owner: signer,
+        recipient,
+        mint: mint.address,
+        amount: grossRaw,
+        decimals: mint.decimals,
+        taxBps,
+        sourceAccount,
+        recipientAccount: recipientTokenAccount,
+        // The config may name the wallets or their token accounts directly.
+        taxDestinations:
+          onChainConfig?.destinations.map((d) => ({
+            destination: d,
+            accounts: [d.wallet, associatedTokenAddress(d.wallet, mint)],
+          })) ?? null,
+        transferFee,
+      };
+
+      // CASE B: offline mode hands the unsigned transaction to the operator
+      if (offlineMode) {
+        if (result.transactions.length !== 1) {
+          setError(
+            "Offline signing supports single-transaction sends only; this one was split into several."
+          );
+          return;
+        }
+        setOfflineTx({
+          base64: result.transactions[0],
+          lastValidBlockHeight: result.lastValidBlockHeight,
+          intent,
+        });
+        logAction("Taxed send exported for offline signing");
+        return;
       }
 
-      const tx = Transaction.from(Buffer.from(base64Tx, "base64"));
-
-      tx.feePayer = wallet.publicKey;
-
-      const signed = await wallet.signTransaction(tx);
-      const sig = await connection.sendRawTransaction(signed.serialize());
-      await connection.confirmTransaction(sig, "confirmed");
+      // CASE C: backend returns serialized transactions we must sign+send
+      const sigs = await pipeline.run({
+        transactions: result.transactions,
+        lastValidBlockHeight: result.lastValidBlockHeight,
+        labels: {
+          // Tax destinations as named by the on-chain config.
+          ...Object.fromEntries(
+            (onChainConfig?.destinations ?? []).flatMap((d) => [
+              [d.wallet, `${d.label} wallet`],
+              [associatedTokenAddress(d.wallet, mint), `${d.label} AKSOL account`],
+            ])
+          ),
+          [signer]: "Your wallet",
+          [sourceAccount]: "Your AKSOL account",
+          [recipient]: "Recipient",
+          [recipientTokenAccount]: "Recipient AKSOL account",
+        },
+        label: "Taxed send",
+        priority,
+        intent,
+      });
 
-      setTxSig(sig);
-      const modeLabel = isMainnet ? "MAINNET" : "devnet";
-      logAction(`Taxed send (${modeLabel})`, sig);
-    } catch (err: any) {
+      setTxSig(sigs[sigs.length - 1]);
+      const modeLabel = isMainnet ? "MAINNET" : networkConfig.name;
+      sigs.forEach((sig, i) =>
+        logAction(
+          sigs.length > 1
+            ? `Taxed send (${modeLabel}) ${i + 1}/${sigs.length}`
+            : `Taxed send (${modeLabel})`,
+          sig
+        )
+      );
+    } catch (err) {
+      if (isAbortError(err)) return;
+      if (err instanceof SigningCancelledError) {
+        setError(err.message);
+        logAction("Taxed send cancelled at review");
+        return;
+      }
+      if (err instanceof PolicyViolationError) {
+        setError(err.message);
+        logAction("Taxed send blocked: transaction did not match the request");
+        return;
+      }
       console.error("Taxed send error:", err);
-      const msg =
-        (err && typeof err.message === "string" && err.message) ||
-        (typeof err === "string" && err) ||
-        "Taxed send failed.";
+      const timedOut = err instanceof BackendError && err.timedOut;
+      const msg = timedOut
+        ? "Backend did not answer in time. The transfer may still have been broadcast — check your wallet activity before trying again."
+        : describeError(err, "Taxed send failed.");
       setError(msg);
       logAction(`Taxed send failed: ${msg}`);
     } finally {
@@ -158,7 +276,7 @@ function TaxedSendCard({
             gap: "0.75rem",
           }}
         >
-          <h2 style={{ margin: 0 }}>Send AKSOL with tax (3%)</h2>
+          <h2 style={{ margin: 0 }}>Send AKSOL with tax ({taxLabel})</h2>
 
           <span className="card-pill">
             {networkConfig.label}
@@ -186,19 +304,17 @@ function TaxedSendCard({
       >
         {isMainnet ? (
           <>
-            <strong>Mainnet demo:</strong> this card currently sends a small
-            amount of <strong>SOL</strong> and applies the standard{" "}
-            <strong>3% protocol tax</strong>, routed into the on-chain buyback,
-            liquidity, and staking wallets from your AKSOL config. In a future
-            upgrade, this flow will route <strong>AKSOL tokens</strong> instead
-            of SOL on mainnet.
+            <strong>Mainnet:</strong> sends <strong>AKSOL tokens</strong> from
+            your wallet and applies the standard{" "}
+            <strong>{taxLabel} protocol tax</strong>, routed into the on-chain
+            buyback, liquidity, and staking accounts from your AKSOL config.
           </>
         ) : (
           <>
-            <strong>Devnet test:</strong> uses SOL on devnet to exercise the
-            same 3% tax logic with test funds only. Safe to experiment here
-            before touching mainnet, while the underlying config mirrors your
-            AKSOL mainnet setup.
+            <strong>Devnet test:</strong> sends the devnet AKSOL mint to
+            exercise the same {taxLabel} tax logic with test tokens only. Safe
+            to experiment here before touching mainnet, while the underlying
+            config mirrors your AKSOL mainnet setup.
           </>
         )}
       </small>
@@ -223,28 +339,84 @@ function TaxedSendCard({
       <form onSubmit={handleSubmit} className="stacked-form">
         <label className="field">
           <span className="field-label">AKSOL recipient</span>
-          <input
-            type="text"
+          <RecipientInput
             placeholder="Enter AKSOL wallet address"
             value={toAddress}
-            onChange={(e) => setToAddress(e.target.value)}
+            onChange={setToAddress}
           />
         </label>
 
+        <RecipientRiskList
+          check={recipientCheck}
+          touched={toAddress.trim() !== ""}
+          acknowledged={risksAccepted}
+          onAcknowledgedChange={(accepted) =>
+            setAcceptedRecipient(accepted ? toAddress.trim() : null)
+          }
+        />
+
         <label className="field">
           <span className="field-label">Amount (AKSOL)</span>
           <input
             type="number"
             min="0"
-            step="0.0001"
+            step="any"
             placeholder="0.10"
             value={amountUi}
             onChange={(e) => setAmountUi(e.target.value)}
           />
         </label>
 
+        <TaxBreakdownPanel
+          config={aksolConfig}
+          gross={grossRaw}
+          decimals={mint?.decimals ?? 0}
+          unit="AKSOL"
+          accountRentLamports={
+            recipientAccount.exists === false
+              ? recipientAccount.rentLamports
+              : null
+          }
+          transferFee={transferFee}
+        />
+
+        {!offlineMode && (
+          <PriorityFeeSelect value={priority} onChange={setPriority} />
+        )}
+
+        {!publicMode && (
+          <label className="offline-toggle">
+            <input
+              type="checkbox"
+              checked={offline}
+              onChange={(e) => setOffline(e.target.checked)}
+            />
+            Sign offline (export for multisig / cold wallet)
+          </label>
+        )}
+
+        {offlineMode && (
+          <label className="field">
+            <span className="field-label">Signer address</span>
+            <input
+              type="text"
+              placeholder={
+                walletPublicKey ?? "Address that will sign the transaction"
+              }
+              value={signerAddress}
+              onChange={(e) => setSignerAddress(e.target.value)}
+            />
+          </label>
+        )}
+
         <button type="submit" disabled={loading}>
-          {loading ? "Sending with tax…" : "Send with tax"}
+          {offlineMode
+            ? loading
+              ? "Building transaction…"
+              : "Build for offline signing"
+            : loading
+            ? "Sending with tax…"
+            : "Send with tax"}
         </button>
       </form>
 
@@ -258,10 +430,26 @@ function TaxedSendCard({
         }}
       >
         Backend constructs a taxed transfer, either broadcasting it directly or
-        returning a transaction for your wallet to sign. The AKSOL tax (3%) is
-        routed according to your on-chain config wallets.
+        returning a transaction for your wallet to sign. The AKSOL tax
+        ({taxLabel}) is routed according to your on-chain config wallets.
       </small>
 
+      {offlineMode && (
+        <OfflineSigningPanel
+          unsigned={offlineTx}
+          label="Taxed send"
+          logAction={logAction}
+        />
+      )}
+
+      <TransactionReviewPanel
+        review={pipeline.review}
+        onApprove={pipeline.approve}
+        onCancel={pipeline.cancel}
+      />
+
+      <TxProgressSteps progress={pipeline.progress} />
+
       {/* Error status */}
       {error && <div className="status-error">Error: {error}</div>}
 
@@ -273,7 +461,7 @@ function TaxedSendCard({
           </div>
           <div className="wallet-overview-link">
             <a
-              href={`${explorerBaseUrl}/tx/${txSig}?cluster=${cluster}`}
+              href={explorerTxUrl(networkConfig, txSig)}
               target="_blank"
               rel="noreferrer"
             >
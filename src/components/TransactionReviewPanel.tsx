@@ -0,0 +1,187 @@
+// src/components/TransactionReviewPanel.tsx
+import { useState } from "react";
+import { useNetwork } from "../networkContext";
+import type { ReviewState } from "../lib/useTransactionPipeline";
+import type { AccountDelta } from "../lib/txPreview";
+import type { PriorityFeeQuote } from "../lib/priorityFee";
+import { lamportsToUsd, usePrices } from "../lib/prices";
+import {
+  formatSolDelta,
+  formatTokenAmount,
+  shortAddress,
+} from "../lib/format";
+
+type TransactionReviewPanelProps = {
+  review: ReviewState | null;
+  onApprove: () => void;
+  onCancel: () => void;
+};
+
+function DeltaRow({ account, mint }: { account: AccountDelta; mint: string }) {
+  const { token } = account;
+  const symbol = token && token.mint === mint ? "AKSOL" : "tokens";
+
+  return (
+    <li className="tx-review-row">
+      <div>
+        <strong>{account.label ?? shortAddress(account.address)}</strong>
+        {account.label && (
+          <code className="tx-review-address">
+            {shortAddress(account.address)}
+          </code>
+        )}
+      </div>
+      <div className="tx-review-amounts">
+        {account.lamportsDelta !== 0 && (
+          <span
+            className={account.lamportsDelta > 0 ? "delta-in" : "delta-out"}
+          >
+            {formatSolDelta(account.lamportsDelta, 6)} SOL
+          </span>
+        )}
+        {token && token.delta !== 0n && (
+          <span className={token.delta > 0n ? "delta-in" : "delta-out"}>
+            {token.delta > 0n ? "+" : ""}
+            {token.decimals != null
+              ? formatTokenAmount(token.delta, token.decimals)
+              : token.delta.toString()}{" "}
+            {symbol}
+          </span>
+        )}
+      </div>
+    </li>
+  );
+}
+
+function PriorityFeeRow({
+  quote,
+  solUsd,
+}: {
+  quote: PriorityFeeQuote;
+  solUsd: number | null;
+}) {
+  const usd = lamportsToUsd(quote.priorityLamports, solUsd);
+  return (
+    <div className="tx-review-meta">
+      Priority fee ({quote.level}):{" "}
+      {formatSolDelta(-quote.priorityLamports, 6)} SOL
+      {usd && ` ≈ ${usd}`}
+      {" · "}
+      {quote.microLamports.toLocaleString()} µ-lamports/CU
+      {quote.computeUnitLimit != null &&
+        ` × ${quote.computeUnitLimit.toLocaleString()} CU limit`}
+      {quote.note && <div>{quote.note}</div>}
+    </div>
+  );
+}
+
+// Shown between "backend built a transaction" and "wallet signs it". The
+// user sees the simulated balance changes and either approves or cancels.
+function TransactionReviewPanel({
+  review,
+  onApprove,
+  onCancel,
+}: TransactionReviewPanelProps) {
+  const { networkConfig, isMainnet } = useNetwork();
+  const { solUsd } = usePrices();
+  const [showLogs, setShowLogs] = useState(false);
+
+  if (!review) return null;
+
+  if (review.status === "simulating") {
+    return (
+      <div className="tx-review">
+        <div className="tx-review-title">Simulating transaction…</div>
+      </div>
+    );
+  }
+
+  const preview = review.status === "ready" ? review.preview : null;
+  const simulationFailed = !!preview?.error;
+  // Without a working simulation we refuse to let mainnet sign blind.
+  const canApprove =
+    !simulationFailed && (review.status === "ready" || !isMainnet);
+
+  return (
+    <div className="tx-review">
+      <div className="tx-review-title">Review before signing</div>
+
+      {review.warnings.length > 0 && (
+        <ul className="tx-review-warnings">
+          {review.warnings.map((warning) => (
+            <li key={warning}>{warning}</li>
+          ))}
+        </ul>
+      )}
+
+      {review.priorityFee && (
+        <PriorityFeeRow quote={review.priorityFee} solUsd={solUsd} />
+      )}
+
+      {review.status === "unavailable" && (
+        <div className="status-error">
+          Could not simulate: {review.error}
+          {isMainnet && " Signing is disabled on mainnet without a preview."}
+        </div>
+      )}
+
+      {preview && (
+        <>
+          {preview.error ? (
+            <div className="status-error">
+              Simulation failed: {preview.error}. Signing would fail.
+            </div>
+          ) : (
+            <ul className="tx-review-list">
+              {preview.accounts.map((account) => (
+                <DeltaRow
+                  key={account.address}
+                  account={account}
+                  mint={networkConfig.mint}
+                />
+              ))}
+            </ul>
+          )}
+
+          <div className="tx-review-meta">
+            Network fee:{" "}
+            {preview.feeLamports != null
+              ? `${formatSolDelta(-preview.feeLamports, 6)} SOL`
+              : "unknown"}
+            {preview.feeLamports != null &&
+              solUsd != null &&
+              ` ≈ ${lamportsToUsd(preview.feeLamports, solUsd)}`}
+            {preview.unitsConsumed != null &&
+              ` · ${preview.unitsConsumed.toLocaleString()} compute units`}
+            {" · "}
+            Fee payer balance change above includes this fee.
+          </div>
+
+          {preview.logs.length > 0 && (
+            <>
+              <button
+                type="button"
+                className="tx-review-link"
+                onClick={() => setShowLogs((prev) => !prev)}
+              >
+                {showLogs ? "Hide program logs" : "Show program logs"}
+              </button>
+              {showLogs && <pre>{preview.logs.join("\n")}</pre>}
+            </>
+          )}
+        </>
+      )}
+
+      <div className="tx-review-actions">
+        <button type="button" onClick={onApprove} disabled={!canApprove}>
+          Approve &amp; sign
+        </button>
+        <button type="button" className="tx-review-cancel" onClick={onCancel}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default TransactionReviewPanel;
@@ -0,0 +1,60 @@
+// src/components/TxProgressSteps.tsx
+import type { TxPhase, TxProgress } from "../lib/solanaTx";
+
+const STEPS: { phase: TxPhase; label: string }[] = [
+  { phase: "awaiting-signature", label: "Awaiting signature" },
+  { phase: "sent", label: "Sent" },
+  { phase: "confirmed", label: "Confirmed" },
+  { phase: "finalized", label: "Finalized" },
+];
+
+type TxProgressStepsProps = {
+  progress: TxProgress | null;
+};
+
+// Compact phase strip shared by the cards that sign backend transactions.
+function TxProgressSteps({ progress }: TxProgressStepsProps) {
+  if (!progress) return null;
+
+  const terminalError =
+    progress.phase === "expired" || progress.phase === "failed";
+  // A failed or expired transaction had still been sent if it has a signature.
+  const reached = terminalError
+    ? progress.signature
+      ? 1
+      : 0
+    : STEPS.findIndex((s) => s.phase === progress.phase);
+
+  return (
+    <div className="tx-progress">
+      {progress.step != null && progress.steps != null && (
+        <small className="tx-progress-batch">
+          Transaction {progress.step} of {progress.steps}
+        </small>
+      )}
+      <ol className="tx-progress-steps">
+        {STEPS.map((step, i) => {
+          const state =
+            reached >= i
+              ? "done"
+              : terminalError && i === 2
+              ? "error"
+              : "pending";
+          return (
+            <li key={step.phase} className={`tx-progress-step is-${state}`}>
+              {step.label}
+            </li>
+          );
+        })}
+      </ol>
+      {terminalError && (
+        <div className="status-error">
+          {progress.phase === "expired" ? "Expired" : "Failed"}
+          {progress.error ? `: ${progress.error}` : ""}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default TxProgressSteps;
@@ -1,18 +1,36 @@
 import { useEffect, useState } from "react";
 import { useConnection, useWallet } from "@solana/wallet-adapter-react";
-import { LAMPORTS_PER_SOL, PublicKey } from "@solana/web3.js";
-import { EXPLORER_BASE_URL, EXPLORER_CLUSTER_SUFFIX } from "../config";
-
-const AKSOL_MINT = new PublicKey("QQjNxnJM1xGoHyXdbJPHZoKEnPEYYRjeFfWxRqdA6hq");
+import { LAMPORTS_PER_SOL } from "@solana/web3.js";
+import { explorerAddressUrl, explorerTxUrl } from "../networkConfig";
+import { useNetwork } from "../networkContext";
+import { describeError } from "../lib/errors";
+import { formatTokenAmount, shortAddress } from "../lib/format";
+import { usePrices } from "../lib/prices";
+import { fetchMintHolding, type TokenHolding } from "../lib/tokenBalances";
+import { LIVE_POLL_INTERVAL_MS, useLiveRefresh } from "../lib/useLiveRefresh";
 
 interface Balances {
   sol: number | null;
-  aksol: number | null;
-  aksolRaw: string | null;
+  // Every AKSOL token account the wallet holds, summed.
+  aksol: TokenHolding | null;
   lastSig: string | null;
   lastTime: number | null; // unix seconds
 }
 
+const EMPTY_BALANCES: Balances = {
+  sol: null,
+  aksol: null,
+  lastSig: null,
+  lastTime: null,
+};
+
+function formatUsd(usd: number): string {
+  return `≈ $${usd.toLocaleString("en-US", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+}
+
 function formatAgo(timestampSec: number | null): string {
   if (!timestampSec) return "No recent activity";
   const nowMs = Date.now();
@@ -33,29 +51,29 @@ function formatAgo(timestampSec: number | null): string {
 function WalletOverview() {
   const { connection } = useConnection();
   const wallet = useWallet();
+  const { networkConfig, isMainnet } = useNetwork();
+  const prices = usePrices();
 
-  const [balances, setBalances] = useState<Balances>({
-    sol: null,
-    aksol: null,
-    aksolRaw: null,
-    lastSig: null,
-    lastTime: null,
-  });
+  const [balances, setBalances] = useState<Balances>(EMPTY_BALANCES);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
 
   const pubkey = wallet.publicKey;
+  const walletAdapter = wallet.wallet?.adapter ?? null;
+  const mintAddress = networkConfig.mint;
+
+  // Refetch when the wallet or one of its AKSOL accounts changes, or a
+  // transaction mentioning the wallet lands.
+  const owner = pubkey?.toBase58() ?? null;
+  const watched = owner
+    ? [owner, ...(balances.aksol?.accounts.map((a) => a.address) ?? [])]
+    : [];
+  const live = useLiveRefresh(watched, owner);
 
   useEffect(() => {
     if (!pubkey) {
-      setBalances({
-        sol: null,
-        aksol: null,
-        aksolRaw: null,
-        lastSig: null,
-        lastTime: null,
-      });
+      setBalances(EMPTY_BALANCES);
       setError(null);
       return;
     }
@@ -66,40 +84,26 @@ function WalletOverview() {
       setLoading(true);
       setError(null);
       try {
-        // Get SOL balance, AKSOL token balance, and last signature
-        const [lamports, tokenAccounts, sigs] = await Promise.all([
+        // SOL balance, every AKSOL token account and the last signature.
+        const [lamports, aksol, sigs] = await Promise.all([
           connection.getBalance(pubkey),
-          connection.getParsedTokenAccountsByOwner(pubkey, {
-            mint: AKSOL_MINT,
-          }),
+          mintAddress
+            ? fetchMintHolding(connection, pubkey, mintAddress)
+            : Promise.resolve(null),
           connection.getSignaturesForAddress(pubkey, { limit: 1 }),
         ]);
 
         if (cancelled) return;
 
         const sol = lamports / LAMPORTS_PER_SOL;
-
-        let aksol = 0;
-        let aksolRaw: string | null = null;
-        if (tokenAccounts.value.length > 0) {
-          const info =
-            tokenAccounts.value[0].account.data.parsed.info.tokenAmount;
-          aksol = info.uiAmount ?? 0;
-          aksolRaw = info.amount;
-        }
-
         const lastSig = sigs.length > 0 ? sigs[0].signature : null;
         const lastTime = sigs.length > 0 ? sigs[0].blockTime ?? null : null;
 
-        setBalances({ sol, aksol, aksolRaw, lastSig, lastTime });
-      } catch (err: any) {
+        setBalances({ sol, aksol, lastSig, lastTime });
+      } catch (err) {
         if (cancelled) return;
         console.error("WalletOverview fetch error:", err);
-        const msg =
-          (err && typeof err.message === "string" && err.message) ||
-          (typeof err === "string" && err) ||
-          "Failed to load wallet data";
-        setError(msg);
+        setError(describeError(err, "Failed to load wallet data"));
       } finally {
         if (!cancelled) {
           setLoading(false);
@@ -112,13 +116,24 @@ function WalletOverview() {
     return () => {
       cancelled = true;
     };
-  }, [connection, pubkey]);
+  }, [connection, pubkey, mintAddress, live.version]);
 
   const hasWallet = !!pubkey;
+  const { aksol } = balances;
+  const associated = aksol?.accounts.find((a) => a.isAssociated) ?? null;
+  // Only mainnet balances have a market price.
+  const solUsd =
+    isMainnet && balances.sol != null && prices.solUsd != null
+      ? balances.sol * prices.solUsd
+      : null;
+  const aksolUsd =
+    isMainnet && aksol && prices.aksolUsd != null
+      ? (Number(aksol.total) / 10 ** aksol.decimals) * prices.aksolUsd
+      : null;
 
   const explorerUrl =
     balances.lastSig != null
-      ? `${EXPLORER_BASE_URL}/tx/${balances.lastSig}${EXPLORER_CLUSTER_SUFFIX}`
+      ? explorerTxUrl(networkConfig, balances.lastSig)
       : null;
 
   const handleCopy = async () => {
@@ -146,23 +161,76 @@ function WalletOverview() {
                 : "0.0000"
               : "—"}
           </div>
-          <div className="wallet-metric-sub">On Solana devnet</div>
+          <div className="wallet-metric-sub">
+            {solUsd != null ? `${formatUsd(solUsd)} · ` : ""}
+            On {networkConfig.label}
+          </div>
         </div>
 
         <div className="wallet-metric">
           <div className="wallet-metric-label">AKSOL balance</div>
           <div className="wallet-metric-value">
             {hasWallet
-              ? balances.aksol != null
-                ? balances.aksol.toFixed(4)
+              ? aksol
+                ? formatTokenAmount(aksol.total, aksol.decimals)
                 : loading
                 ? "Loading…"
-                : "0.0000"
+                : mintAddress
+                ? "0"
+                : "—"
               : "—"}
           </div>
           <div className="wallet-metric-sub">
-            Mint: <code>AKSOL</code> (devnet)
+            {mintAddress ? (
+              <>
+                Mint:{" "}
+                <a
+                  href={explorerAddressUrl(networkConfig, mintAddress)}
+                  target="_blank"
+                  rel="noreferrer"
+                >
+                  <code>{shortAddress(mintAddress)}</code>
+                </a>
+              </>
+            ) : (
+              `No AKSOL mint configured for ${networkConfig.label}`
+            )}
           </div>
+          {aksolUsd != null && (
+            <div className="wallet-metric-sub">{formatUsd(aksolUsd)}</div>
+          )}
+          {!isMainnet && aksol && aksol.total > 0n && (
+            <div className="wallet-metric-sub">Test tokens, no market value</div>
+          )}
+          {aksol && aksol.withheld > 0n && (
+            <div className="wallet-metric-sub">
+              {formatTokenAmount(aksol.withheld, aksol.decimals)} withheld as
+              transfer fees
+            </div>
+          )}
+          {aksol && aksol.accounts.length > 1 && (
+            <ul className="wallet-token-accounts">
+              {aksol.accounts.map((account) => (
+                <li key={account.address}>
+                  <a
+                    href={explorerAddressUrl(networkConfig, account.address)}
+                    target="_blank"
+                    rel="noreferrer"
+                  >
+                    {shortAddress(account.address)}
+                  </a>
+                  {account.isAssociated && " (associated)"}:{" "}
+                  {formatTokenAmount(account.amount, account.decimals)}
+                </li>
+              ))}
+            </ul>
+          )}
+          {aksol && aksol.accounts.length === 1 && (
+            <div className="wallet-metric-sub">
+              {associated ? "Associated account" : "Token account"}{" "}
+              <code>{shortAddress(aksol.accounts[0].address)}</code>
+            </div>
+          )}
         </div>
       </div>
 
@@ -181,6 +249,18 @@ function WalletOverview() {
           <div className="wallet-overview-msg">
             <div className="wallet-overview-label-row">
               <span>Connected wallet:</span>
+              {walletAdapter && (
+                <span className="wallet-overview-name">
+                  {walletAdapter.icon && (
+                    <img
+                      className="wallet-overview-icon"
+                      src={walletAdapter.icon}
+                      alt=""
+                    />
+                  )}
+                  {walletAdapter.name}
+                </span>
+              )}
               <button
                 type="button"
                 className="copy-button"
@@ -194,6 +274,9 @@ function WalletOverview() {
             </div>
             <div className="wallet-overview-activity">
               Last activity: {formatAgo(balances.lastTime)}
+              {live.mode === "live" && " · Live"}
+              {live.mode === "polling" &&
+                ` · Refreshing every ${LIVE_POLL_INTERVAL_MS / 1000} s`}
             </div>
             {explorerUrl && (
               <div className="wallet-overview-link">
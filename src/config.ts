@@ -1,7 +1,8 @@
 // src/config.ts
+import type { NetworkName } from "./networkConfig";
 
-// Which Solana cluster the dApp targets.
-export const DEFAULT_CLUSTER = "devnet" as const;
+// Which Solana cluster the dApp targets on first load.
+export const DEFAULT_CLUSTER: NetworkName = "devnet";
 
 // Backend base URL.
 // In dev: falls back to localhost:8080
@@ -9,9 +10,10 @@ export const DEFAULT_CLUSTER = "devnet" as const;
 export const BACKEND_BASE_URL =
   import.meta.env.VITE_AKSOL_BACKEND_URL ?? "http://localhost:8080";
 
-// Solana Explorer config (devnet)
-export const EXPLORER_BASE_URL = "https://explorer.solana.com";
-export const EXPLORER_CLUSTER_SUFFIX = "?cluster=devnet";
+// Solana Explorer base URL. The cluster query is built per network in
+// networkConfig.ts so links always follow the active cluster.
+export const EXPLORER_BASE_URL =
+  import.meta.env.VITE_EXPLORER_BASE_URL ?? "https://explorer.solana.com";
 
 // Default view mode on first load.
 // true  = public view
@@ -0,0 +1,225 @@
+// src/lib/addressBook.ts
+//
+// Local address book of labelled recipients. Entries belong to one network,
+// so a devnet test wallet never shows up as a mainnet suggestion. Stored in
+// localStorage and shared across tabs like the pending transaction list.
+import { useSyncExternalStore } from "react";
+import { PublicKey } from "@solana/web3.js";
+import { NETWORKS, type NetworkName } from "../networkConfig";
+
+export interface AddressBookEntry {
+  id: string;
+  network: NetworkName;
+  address: string;
+  label: string;
+  note: string;
+  createdAt: number; // unix ms
+}
+
+export interface AddressBookImportResult {
+  added: number;
+  updated: number;
+  skipped: number;
+}
+
+const STORAGE_KEY = "aksol.addressBook";
+const EXPORT_VERSION = 1;
+// Address-poisoning wallets are ground to match the ends people check.
+const LOOKALIKE_PREFIX = 4;
+const LOOKALIKE_SUFFIX = 4;
+
+function newId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function isAddress(value: string): boolean {
+  try {
+    new PublicKey(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// A well-formed entry from stored or imported JSON, or null. Missing ids and
+// timestamps are filled in.
+function toEntry(item: unknown): AddressBookEntry | null {
+  if (typeof item !== "object" || item === null) return null;
+  const { id, network, address, label, note, createdAt } =
+    item as Partial<Record<keyof AddressBookEntry, unknown>>;
+  if (
+    typeof network !== "string" ||
+    !Object.hasOwn(NETWORKS, network) ||
+    typeof address !== "string" ||
+    !isAddress(address) ||
+    typeof label !== "string" ||
+    !label.trim()
+  ) {
+    return null;
+  }
+  return {
+    id: typeof id === "string" && id ? id : newId(),
+    network: network as NetworkName,
+    address,
+    label: label.trim(),
+    note: typeof note === "string" ? note.trim() : "",
+    createdAt: typeof createdAt === "number" ? createdAt : Date.now(),
+  };
+}
+
+function load(): AddressBookEntry[] {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    const stored: unknown = raw ? JSON.parse(raw) : [];
+    if (!Array.isArray(stored)) return [];
+    return stored
+      .map(toEntry)
+      .filter((e): e is AddressBookEntry => e !== null);
+  } catch {
+    return [];
+  }
+}
+
+let entries: AddressBookEntry[] = load();
+const listeners = new Set<() => void>();
+
+function commit(next: AddressBookEntry[]) {
+  entries = next;
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+  } catch {
+    // storage full or disabled; the in-memory list still works
+  }
+  listeners.forEach((listener) => listener());
+}
+
+window.addEventListener("storage", (e) => {
+  if (e.key !== STORAGE_KEY) return;
+  entries = load();
+  listeners.forEach((listener) => listener());
+});
+
+// Adds the address to the network's book, or relabels it if already there.
+export function saveAddress(
+  network: NetworkName,
+  address: string,
+  label: string,
+  note = ""
+): void {
+  const trimmed = address.trim();
+  if (!isAddress(trimmed)) {
+    throw new Error(`${trimmed || "Address"} is not a valid Solana address.`);
+  }
+  if (!label.trim()) throw new Error("Give the address a label.");
+
+  const existing = entries.find(
+    (e) => e.network === network && e.address === trimmed
+  );
+  const entry: AddressBookEntry = {
+    id: existing?.id ?? newId(),
+    network,
+    address: trimmed,
+    label: label.trim(),
+    note: note.trim(),
+    createdAt: existing?.createdAt ?? Date.now(),
+  };
+  commit(
+    existing
+      ? entries.map((e) => (e.id === existing.id ? entry : e))
+      : [...entries, entry]
+  );
+}
+
+export function removeAddress(id: string): void {
+  commit(entries.filter((e) => e.id !== id));
+}
+
+export function findEntry(
+  book: AddressBookEntry[],
+  address: string
+): AddressBookEntry | null {
+  const trimmed = address.trim();
+  return book.find((e) => e.address === trimmed) ?? null;
+}
+
+// Saved addresses that share the first and last characters of `address`
+// without being it: what a poisoned "recent transfer" looks like next to
+// the real one.
+export function findLookalikes(
+  book: AddressBookEntry[],
+  address: string
+): AddressBookEntry[] {
+  const a = address.trim();
+  if (a.length < LOOKALIKE_PREFIX + LOOKALIKE_SUFFIX) return [];
+  return book.filter(
+    (e) =>
+      e.address !== a &&
+      e.address.slice(0, LOOKALIKE_PREFIX) === a.slice(0, LOOKALIKE_PREFIX) &&
+      e.address.slice(-LOOKALIKE_SUFFIX) === a.slice(-LOOKALIKE_SUFFIX)
+  );
+}
+
+export function exportAddressBook(): string {
+  return JSON.stringify({ version: EXPORT_VERSION, entries }, null, 2);
+}
+
+// Merges an exported book into this one. Entries are matched by network and
+// address; anything malformed is skipped rather than failing the import.
+export function importAddressBook(json: string): AddressBookImportResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("File is not valid JSON.");
+  }
+  const list = (parsed as { entries?: unknown } | null)?.entries;
+  if (!Array.isArray(list)) {
+    throw new Error("File is not an AKSOL address book export.");
+  }
+
+  const result: AddressBookImportResult = { added: 0, updated: 0, skipped: 0 };
+  let next = [...entries];
+  for (const item of list) {
+    const imported = toEntry(item);
+    if (!imported) {
+      result.skipped += 1;
+      continue;
+    }
+    const existing = next.find(
+      (e) => e.network === imported.network && e.address === imported.address
+    );
+    const entry: AddressBookEntry = {
+      ...imported,
+      id: existing?.id ?? newId(),
+      createdAt: existing?.createdAt ?? Date.now(),
+    };
+    if (existing) {
+      next = next.map((e) => (e.id === existing.id ? entry : e));
+      result.updated += 1;
+    } else {
+      next.push(entry);
+      result.added += 1;
+    }
+  }
+  commit(next);
+  return result;
+}
+
+function subscribe(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function getEntries(): AddressBookEntry[] {
+  return entries;
+}
+
+// Entries for one network, sorted by label.
+export function useAddressBook(network: NetworkName): AddressBookEntry[] {
+  const all = useSyncExternalStore(subscribe, getEntries);
+  return all
+    .filter((e) => e.network === network)
+    .sort((a, b) => a.label.localeCompare(b.label));
+}
@@ -0,0 +1,119 @@
+// src/lib/aksolConfig.ts
+//
+// Decoder for the AKSOL program's on-chain config account and the tax split
+// it implies. The config is the source of truth for the tax rate and for
+// which buyback / liquidity / staking wallets receive it.
+import { PublicKey } from "@solana/web3.js";
+
+export type TaxDestinationKey = "buyback" | "liquidity" | "staking";
+
+export interface TaxDestination {
+  key: TaxDestinationKey;
+  label: string;
+  wallet: string;
+  // Share of the tax, in basis points of the tax (not of the transfer).
+  shareBps: number;
+}
+
+export interface AksolConfigAccount {
+  authority: string;
+  mint: string;
+  // Tax on each taxed send, in basis points of the gross amount.
+  taxBps: number;
+  destinations: TaxDestination[];
+}
+
+export interface TaxShare {
+  destination: TaxDestination;
+  // Same units as the gross amount (raw token units).
+  amount: bigint;
+}
+
+export interface TaxBreakdown {
+  gross: bigint;
+  tax: bigint;
+  net: bigint;
+  shares: TaxShare[];
+}
+
+// Anchor `Config` account:
+//   0    [u8; 8]  discriminator
+//   8    Pubkey   authority
+//   40   Pubkey   mint
+//   72   u16      tax_bps
+//   74   u16      buyback_bps     ┐
+//   76   u16      liquidity_bps   ├ shares of the tax, summing to 10_000
+//   78   u16      staking_bps     ┘
+//   80   Pubkey   buyback_wallet
+//   112  Pubkey   liquidity_wallet
+//   144  Pubkey   staking_wallet
+const CONFIG_MIN_LEN = 176;
+const TAX_BPS_OFFSET = 72;
+const SPLIT_OFFSET = 74;
+const WALLETS_OFFSET = 80;
+
+const DESTINATIONS: { key: TaxDestinationKey; label: string }[] = [
+  { key: "buyback", label: "Buyback" },
+  { key: "liquidity", label: "Liquidity" },
+  { key: "staking", label: "Staking" },
+];
+
+function readPubkey(data: Uint8Array, offset: number): string {
+  return new PublicKey(data.slice(offset, offset + 32)).toBase58();
+}
+
+export function decodeAksolConfig(data: Uint8Array): AksolConfigAccount {
+  if (data.length < CONFIG_MIN_LEN) {
+    throw new Error(
+      `Config account is ${data.length} bytes; expected at least ${CONFIG_MIN_LEN}.`
+    );
+  }
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  const taxBps = view.getUint16(TAX_BPS_OFFSET, true);
+  if (taxBps > 10_000) {
+    throw new Error(`Config tax of ${taxBps} bps is out of range.`);
+  }
+
+  const destinations = DESTINATIONS.map(({ key, label }, i) => ({
+    key,
+    label,
+    shareBps: view.getUint16(SPLIT_OFFSET + i * 2, true),
+    wallet: readPubkey(data, WALLETS_OFFSET + i * 32),
+  }));
+  const splitTotal = destinations.reduce((sum, d) => sum + d.shareBps, 0);
+  if (splitTotal !== 10_000) {
+    throw new Error(
+      `Config tax split adds up to ${splitTotal} bps instead of 10000.`
+    );
+  }
+
+  return {
+    authority: readPubkey(data, 8),
+    mint: readPubkey(data, 40),
+    taxBps,
+    destinations,
+  };
+}
+
+// Same rounding as the program: tax is floored, each share is floored and
+// the rounding remainder goes to the first destination.
+export function computeTaxBreakdown(
+  gross: bigint,
+  taxBps: number,
+  destinations: TaxDestination[]
+): TaxBreakdown {
+  const tax = (gross * BigInt(taxBps)) / 10_000n;
+  const shares = destinations.map((destination) => ({
+    destination,
+    amount: (tax * BigInt(destination.shareBps)) / 10_000n,
+  }));
+  const allotted = shares.reduce((sum, s) => sum + s.amount, 0n);
+  if (shares.length > 0) shares[0].amount += tax - allotted;
+  return { gross, tax, net: gross - tax, shares };
+}
+
+// "3%" / "2.5%" for a basis-point rate.
+export function formatBps(bps: number): string {
+  return `${(bps / 100).toFixed(2).replace(/\.?0+$/, "")}%`;
+}
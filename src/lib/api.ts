@@ -1,9 +1,388 @@
-export type Cluster = "devnet" | "mainnet-beta";
+// src/lib/api.ts
+//
+// Typed client for the AKSOL backend. Every /aksol endpoint has a request
+// type, a response type and a runtime parser, so cards never read fields off
+// untyped JSON. Once the wallet has signed in (see session.ts), every call
+// carries the session token as a bearer token.
+import type { NetworkName } from "../networkConfig";
+import {
+  RequestTimeoutError,
+  isAbortError,
+  retryWithBackoff,
+  withTimeout,
+  type CallOptions,
+} from "./request";
+
+export type Cluster = NetworkName;
 
 const BACKEND_BASE =
   import.meta.env.VITE_BACKEND_BASE_URL ||
   (import.meta.env.DEV ? "http://localhost:8080" : "");
 
+export type BackendEndpoint =
+  | "/aksol/status"
+  | "/aksol/send-taxed-tx"
+  | "/aksol/zero-percent-purchase"
+  | "/aksol/storefront-purchase"
+  | "/aksol/auth/nonce"
+  | "/aksol/auth/verify"
+  | "/aksol/auth/logout";
+
+interface EndpointPolicy {
+  timeoutMs: number;
+  // Only calls with no side effects on the backend may be retried. A taxed
+  // send can broadcast server-side and a storefront order is recorded, so
+  // neither is ever repeated automatically.
+  retries: number;
+}
+
+const ENDPOINT_POLICY: Record<BackendEndpoint, EndpointPolicy> = {
+  "/aksol/status": { timeoutMs: 8_000, retries: 2 },
+  // Only builds an unsigned transaction (a quote); nothing is submitted.
+  "/aksol/zero-percent-purchase": { timeoutMs: 15_000, retries: 2 },
+  "/aksol/send-taxed-tx": { timeoutMs: 30_000, retries: 0 },
+  "/aksol/storefront-purchase": { timeoutMs: 15_000, retries: 0 },
+  "/aksol/auth/nonce": { timeoutMs: 8_000, retries: 2 },
+  // A nonce is good for one verification, so a retry could only fail.
+  "/aksol/auth/verify": { timeoutMs: 15_000, retries: 0 },
+  "/aksol/auth/logout": { timeoutMs: 8_000, retries: 0 },
+};
+
+// Session token from Sign-In With Solana, attached to every request.
+let authToken: string | null = null;
+const authRejectedListeners = new Set<() => void>();
+
+export function setAuthToken(token: string | null): void {
+  authToken = token;
+}
+
+// Called when the backend rejects the token a request carried, i.e. the
+// session was revoked or expired server-side.
+export function onAuthRejected(listener: () => void): () => void {
+  authRejectedListeners.add(listener);
+  return () => {
+    authRejectedListeners.delete(listener);
+  };
+}
+
+// Only a 401 marked `WWW-Authenticate: Bearer error="invalid_token"` (RFC
+// 6750) means the session itself is gone. A plain 401 asks to sign in, and a
+// 403 refuses this request for a session that is otherwise fine.
+function isTokenRejected(res: Response): boolean {
+  return (
+    res.status === 401 &&
+    /error="invalid_token"/.test(res.headers.get("WWW-Authenticate") ?? "")
+  );
+}
+
+// Raised for HTTP errors, `ok: false` replies, timeouts and responses whose
+// shape does not match what the endpoint promises. `status` is 0 when the
+// request never got an HTTP response; `timedOut` marks the ones that ran out
+// of time (the underlying error is kept as `cause`).
+export class BackendError extends Error {
+  readonly status: number;
+  readonly endpoint: string;
+  readonly serverMessage: string | null;
+  readonly timedOut: boolean;
+
+  constructor(
+    endpoint: string,
+    status: number,
+    serverMessage: string | null,
+    detail?: string,
+    cause?: unknown
+  ) {
+    const reason = detail ?? serverMessage ?? "request failed";
+    super(
+      status >= 400
+        ? `Backend HTTP ${status} on ${endpoint}: ${reason}`
+        : `Backend ${endpoint}: ${reason}`,
+      cause === undefined ? undefined : { cause }
+    );
+    this.name = "BackendError";
+    this.status = status;
+    this.endpoint = endpoint;
+    this.serverMessage = serverMessage;
+    this.timedOut = cause instanceof RequestTimeoutError;
+  }
+}
+
+// ---------- Request / response types ----------
+
+export interface StatusRequest {
+  cluster: Cluster;
+}
+
+export interface StatusResponse {
+  ok: boolean;
+  cluster?: string;
+  backendVersion?: string;
+  solanaVersion?: string;
+  error?: string;
+  // What the backend itself is configured with, when it says so. Compared
+  // with the app's config and the chain by the status card.
+  programId?: string;
+  mint?: string;
+  configPda?: string;
+  taxBps?: number;
+  // Anything else the backend reports is kept for the raw debug view.
+  raw: Record<string, unknown>;
+}
+
+export interface TaxedSendRequest {
+  fromPubkey: string;
+  toPubkey: string;
+  amountUi: number;
+  cluster: Cluster;
+  // AKSOL mint to move. The backend builds SPL transfers (creating the
+  // recipient's token account when needed) for exactly `amountRaw`.
+  mint: string;
+  // Gross amount in raw token units, as a decimal string (u64 does not fit
+  // in a JSON number).
+  amountRaw: string;
+  decimals: number;
+  // Build for another signer (offline / multisig). The transaction is
+  // exported unsigned, so the backend must not broadcast it, and the
+  // session's wallet need not be `fromPubkey`.
+  offline?: boolean;
+}
+
+// The backend either broadcasts the taxed transfer itself or hands back
+// unsigned transactions for the wallet to sign, in execution order.
+export type TaxedSendResponse =
+  | { kind: "broadcast"; signature: string }
+  | { kind: "unsigned"; transactions: string[]; lastValidBlockHeight?: number };
+
+export interface ZeroPercentPurchaseRequest {
+  fromPubkey: string;
+  amountUi: number;
+  cluster: Cluster;
+  // As for the taxed send: an unsigned build for another signer.
+  offline?: boolean;
+}
+
+export interface ZeroPercentPurchaseResponse {
+  // Base64, unsigned, in execution order. Usually exactly one.
+  transactions: string[];
+  // Expiry of the transaction's blockhash, if the backend reports it.
+  lastValidBlockHeight?: number;
+}
+
+export interface StorefrontPurchaseRequest {
+  // The signed-in wallet placing the order.
+  fromPubkey: string;
+  // Wallet the AKSOL is delivered to.
+  recipientPubkey: string;
+  amountSol: number;
+  estimatedAksol: number | null;
+  note: string | null;
+  cluster: Cluster;
+}
+
+export interface StorefrontPurchaseResponse {
+  orderId: string | null;
+}
+
+export interface AuthNonceRequest {
+  address: string;
+  cluster: Cluster;
+}
+
+export interface AuthNonceResponse {
+  nonce: string;
+}
+
+export interface AuthVerifyRequest {
+  address: string;
+  // The exact sign-in message text the wallet signed.
+  message: string;
+  // Base58 ed25519 signature over the UTF-8 message.
+  signature: string;
+}
+
+export interface AuthVerifyResponse {
+  token: string;
+  // The backend sends an ISO 8601 timestamp; parsed to unix ms.
+  expiresAt: number;
+}
+
+// ---------- Runtime validation helpers ----------
+
+interface ParseContext {
+  endpoint: string;
+  status: number;
+}
+
+type Parser<T> = (json: Record<string, unknown>, ctx: ParseContext) => T;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function optionalString(
+  json: Record<string, unknown>,
+  key: string
+): string | undefined {
+  const value = json[key];
+  return typeof value === "string" && value.length > 0 ? value : undefined;
+}
+
+function optionalPositiveInt(
+  json: Record<string, unknown>,
+  key: string
+): number | undefined {
+  const value = json[key];
+  return typeof value === "number" && Number.isInteger(value) && value > 0
+    ? value
+    : undefined;
+}
+
+function optionalNonNegativeInt(
+  json: Record<string, unknown>,
+  key: string
+): number | undefined {
+  const value = json[key];
+  return typeof value === "number" && Number.isInteger(value) && value >= 0
+    ? value
+    : undefined;
+}
+
+// `transactions: [...]` for multi-transaction builds, otherwise a single
+// `transaction` (or one of its older aliases).
+function transactionList(
+  json: Record<string, unknown>,
+  keys: string[]
+): string[] | undefined {
+  const list = json.transactions;
+  if (Array.isArray(list) && list.length > 0) {
+    return list.every((t) => typeof t === "string" && t.length > 0)
+      ? (list as string[])
+      : undefined;
+  }
+  const single = firstString(json, keys);
+  return single ? [single] : undefined;
+}
+
+function firstString(
+  json: Record<string, unknown>,
+  keys: string[]
+): string | undefined {
+  for (const key of keys) {
+    const value = optionalString(json, key);
+    if (value) return value;
+  }
+  return undefined;
+}
+
+function requireOk(json: Record<string, unknown>, ctx: ParseContext): void {
+  if (json.ok === false) {
+    const message = optionalString(json, "error") ?? null;
+    throw new BackendError(
+      ctx.endpoint,
+      ctx.status,
+      message,
+      message ?? "backend reported ok: false"
+    );
+  }
+}
+
+function shapeError(ctx: ParseContext, detail: string): BackendError {
+  return new BackendError(ctx.endpoint, ctx.status, null, detail);
+}
+
+// ---------- Parsers ----------
+
+const parseStatus: Parser<StatusResponse> = (json) => ({
+  ok: json.ok === true,
+  cluster: optionalString(json, "cluster"),
+  backendVersion: optionalString(json, "backendVersion"),
+  solanaVersion: optionalString(json, "solanaVersion"),
+  error: optionalString(json, "error"),
+  programId: optionalString(json, "programId"),
+  mint: optionalString(json, "mint"),
+  configPda: firstString(json, ["configPda", "config"]),
+  // 0 is a valid no-tax configuration.
+  taxBps: optionalNonNegativeInt(json, "taxBps"),
+  raw: json,
+});
+
+// Older backend builds used several names for the same fields; they are
+// normalised here so cards only ever see `signature` / `transactions`.
+const parseTaxedSend: Parser<TaxedSendResponse> = (json, ctx) => {
+  requireOk(json, ctx);
+
+  const signature = firstString(json, [
+    "signature",
+    "txSignature",
+    "transactionSignature",
+    "sig",
+  ]);
+  if (signature) return { kind: "broadcast", signature };
+
+  const transactions = transactionList(json, [
+    "transaction",
+    "tx",
+    "txBase64",
+    "serializedTx",
+  ]);
+  if (transactions) {
+    return {
+      kind: "unsigned",
+      transactions,
+      lastValidBlockHeight: optionalPositiveInt(json, "lastValidBlockHeight"),
+    };
+  }
+
+  throw shapeError(ctx, "response has neither a signature nor a transaction");
+};
+
+const parseZeroPercentPurchase: Parser<ZeroPercentPurchaseResponse> = (
+  json,
+  ctx
+) => {
+  requireOk(json, ctx);
+  const transactions = transactionList(json, ["transaction"]);
+  if (!transactions) {
+    throw shapeError(ctx, "response did not include a transaction");
+  }
+  return {
+    transactions,
+    lastValidBlockHeight: optionalPositiveInt(json, "lastValidBlockHeight"),
+  };
+};
+
+const parseStorefrontPurchase: Parser<StorefrontPurchaseResponse> = (
+  json,
+  ctx
+) => {
+  requireOk(json, ctx);
+  if (json.ok !== true) {
+    throw shapeError(ctx, "response is missing ok: true");
+  }
+  return { orderId: optionalString(json, "orderId") ?? null };
+};
+
+const parseAuthNonce: Parser<AuthNonceResponse> = (json, ctx) => {
+  requireOk(json, ctx);
+  const nonce = optionalString(json, "nonce");
+  if (!nonce) throw shapeError(ctx, "response did not include a nonce");
+  return { nonce };
+};
+
+const parseAuthVerify: Parser<AuthVerifyResponse> = (json, ctx) => {
+  requireOk(json, ctx);
+  const token = optionalString(json, "token");
+  const expiresAt = Date.parse(optionalString(json, "expiresAt") ?? "");
+  if (!token || Number.isNaN(expiresAt)) {
+    throw shapeError(ctx, "response is missing the session token or expiry");
+  }
+  return { token, expiresAt };
+};
+
+const parseOk: Parser<void> = (json, ctx) => requireOk(json, ctx);
+
+// ---------- Transport ----------
+
 function buildUrl(path: string) {
   if (!BACKEND_BASE) {
     throw new Error("BACKEND_BASE is not configured for this environment");
@@ -11,17 +390,155 @@ function buildUrl(path: string) {
   return `${BACKEND_BASE}${path}`;
 }
 
-export async function postJson<T>(path: string, body: unknown): Promise<T> {
-  const res = await fetch(buildUrl(path), {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(body),
-  });
+function serverMessageFrom(json: unknown, text: string): string | null {
+  if (isRecord(json)) {
+    const message =
+      optionalString(json, "error") ?? optionalString(json, "message");
+    if (message) return message;
+  }
+  return text.trim() ? text.trim().slice(0, 300) : null;
+}
+
+// Network failures, timeouts, 429 and 5xx are worth another attempt; a 4xx
+// or a malformed body will not improve by asking again.
+function isTransient(err: unknown): boolean {
+  return (
+    err instanceof BackendError &&
+    (err.status === 0 || err.status === 429 || err.status >= 500)
+  );
+}
+
+async function postOnce<T>(
+  path: BackendEndpoint,
+  body: unknown,
+  parse: Parser<T>,
+  options: CallOptions
+): Promise<T> {
+  let res: Response;
+  let text: string;
+  const token = authToken;
+  try {
+    // The body is read inside the timeout too: a backend that sends headers
+    // and then stalls must not hang the card.
+    [res, text] = await withTimeout(async (signal) => {
+      const r = await fetch(buildUrl(path), {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        body: JSON.stringify(body),
+        signal,
+      });
+      return [r, await r.text()] as const;
+    }, options);
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    const reason =
+      err instanceof RequestTimeoutError
+        ? err.message.toLowerCase()
+        : `could not reach backend (${
+            err instanceof Error ? err.message : "network error"
+          })`;
+    throw new BackendError(path, 0, null, reason, err);
+  }
+
+  let json: unknown = null;
+  let malformed = false;
+  try {
+    json = text ? JSON.parse(text) : null;
+  } catch {
+    malformed = true;
+  }
 
   if (!res.ok) {
-    const text = await res.text();
-    throw new Error(`Backend HTTP ${res.status}: ${text}`);
+    if (isTokenRejected(res) && token && token === authToken) {
+      authRejectedListeners.forEach((listener) => listener());
+    }
+    throw new BackendError(path, res.status, serverMessageFrom(json, text));
+  }
+
+  const ctx: ParseContext = { endpoint: path, status: res.status };
+  if (malformed || !isRecord(json)) {
+    throw shapeError(ctx, "response was not a JSON object");
   }
 
-  return res.json() as Promise<T>;
+  return parse(json, ctx);
+}
+
+export function postJson<T>(
+  path: BackendEndpoint,
+  body: unknown,
+  parse: Parser<T>,
+  options: CallOptions = {}
+): Promise<T> {
+  const policy = ENDPOINT_POLICY[path];
+  const callOptions: CallOptions = {
+    signal: options.signal,
+    timeoutMs: options.timeoutMs ?? policy.timeoutMs,
+  };
+
+  return retryWithBackoff(() => postOnce(path, body, parse, callOptions), {
+    retries: policy.retries,
+    signal: options.signal,
+    shouldRetry: isTransient,
+  });
+}
+
+// ---------- Endpoints ----------
+
+export function fetchStatus(
+  req: StatusRequest,
+  options?: CallOptions
+): Promise<StatusResponse> {
+  return postJson("/aksol/status", req, parseStatus, options);
+}
+
+export function requestTaxedSend(
+  req: TaxedSendRequest,
+  options?: CallOptions
+): Promise<TaxedSendResponse> {
+  return postJson("/aksol/send-taxed-tx", req, parseTaxedSend, options);
+}
+
+export function requestZeroPercentPurchase(
+  req: ZeroPercentPurchaseRequest,
+  options?: CallOptions
+): Promise<ZeroPercentPurchaseResponse> {
+  return postJson(
+    "/aksol/zero-percent-purchase",
+    req,
+    parseZeroPercentPurchase,
+    options
+  );
+}
+
+export function submitStorefrontPurchase(
+  req: StorefrontPurchaseRequest,
+  options?: CallOptions
+): Promise<StorefrontPurchaseResponse> {
+  return postJson(
+    "/aksol/storefront-purchase",
+    req,
+    parseStorefrontPurchase,
+    options
+  );
+}
+
+export function requestAuthNonce(
+  req: AuthNonceRequest,
+  options?: CallOptions
+): Promise<AuthNonceResponse> {
+  return postJson("/aksol/auth/nonce", req, parseAuthNonce, options);
+}
+
+export function verifySignIn(
+  req: AuthVerifyRequest,
+  options?: CallOptions
+): Promise<AuthVerifyResponse> {
+  return postJson("/aksol/auth/verify", req, parseAuthVerify, options);
+}
+
+export function signOutSession(options?: CallOptions): Promise<void> {
+  return postJson("/aksol/auth/logout", {}, parseOk, options);
 }
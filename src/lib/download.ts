@@ -0,0 +1,16 @@
+// src/lib/download.ts
+
+// Saves `text` as a file through a temporary object URL.
+export function downloadText(
+  filename: string,
+  text: string,
+  type = "text/plain"
+): void {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoking right away cancels the download in some browsers (Firefox).
+  setTimeout(() => URL.revokeObjectURL(url), 1_000);
+}
@@ -0,0 +1,8 @@
+// src/lib/errors.ts
+
+// Human-readable message for anything thrown by fetch, web3.js or a wallet.
+export function describeError(err: unknown, fallback: string): string {
+  if (err instanceof Error && err.message) return err.message;
+  if (typeof err === "string" && err) return err;
+  return fallback;
+}
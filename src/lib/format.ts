@@ -0,0 +1,32 @@
+// src/lib/format.ts
+import { LAMPORTS_PER_SOL } from "@solana/web3.js";
+
+export function shortAddress(address: string): string {
+  return `${address.slice(0, 4)}…${address.slice(-4)}`;
+}
+
+// Signed SOL amount, e.g. "+0.0300" / "-1.0000".
+export function formatSolDelta(lamports: number, digits = 4): string {
+  const sol = lamports / LAMPORTS_PER_SOL;
+  return `${sol > 0 ? "+" : ""}${sol.toFixed(digits)}`;
+}
+
+// Raw token units → UI string without going through floating point.
+export function formatTokenAmount(raw: bigint, decimals: number): string {
+  const negative = raw < 0n;
+  const abs = negative ? -raw : raw;
+  const base = 10n ** BigInt(decimals);
+  const whole = abs / base;
+  const fraction = (abs % base)
+    .toString()
+    .padStart(decimals, "0")
+    .replace(/0+$/, "");
+  return `${negative ? "-" : ""}${whole.toLocaleString("en-US")}${
+    fraction ? `.${fraction}` : ""
+  }`;
+}
+
+// UI SOL amount (as typed in a form) → lamports.
+export function solToLamports(amountUi: number): bigint {
+  return BigInt(Math.round(amountUi * LAMPORTS_PER_SOL));
+}
@@ -0,0 +1,139 @@
+// src/lib/offlineSigning.ts
+//
+// Sign-only round trip for operators who sign outside the browser (Squads,
+// the Solana CLI, an air-gapped machine): export the backend-built
+// transaction with a readable summary, then verify whatever is pasted back
+// before it is broadcast.
+import { Connection, PublicKey, VersionedTransaction } from "@solana/web3.js";
+import { ed25519 } from "@noble/curves/ed25519";
+import bs58 from "bs58";
+import {
+  base64ToUint8Array,
+  decodeTransaction,
+  uint8ArrayToBase64,
+} from "./solanaTx";
+import {
+  previewTransaction,
+  resolveAccountKeys,
+  toVersioned,
+} from "./txPreview";
+import { decodeInstructions, describeInstruction } from "./txDecode";
+import { checkTransactionPolicy, type TransferIntent } from "./txPolicy";
+
+export interface OfflineExport {
+  base64: string;
+  base58: string;
+  feePayer: string;
+  blockhash: string;
+  lastValidBlockHeight: number | null;
+  // Every account whose signature the transaction needs.
+  signers: string[];
+  instructions: string[];
+  violations: string[];
+  warnings: string[];
+}
+
+function requiredSigners(tx: VersionedTransaction): string[] {
+  const { header, staticAccountKeys } = tx.message;
+  return staticAccountKeys
+    .slice(0, header.numRequiredSignatures)
+    .map((k) => k.toBase58());
+}
+
+export async function prepareOfflineExport(
+  connection: Connection,
+  base64: string,
+  lastValidBlockHeight: number | undefined,
+  aksolProgramId: string | undefined,
+  intent: TransferIntent | undefined
+): Promise<OfflineExport> {
+  const tx = toVersioned(decodeTransaction(base64));
+  const keys = await resolveAccountKeys(connection, tx);
+  const decoded = decodeInstructions(tx, keys, aksolProgramId);
+  const feePayer = keys.get(0)!.toBase58();
+  // The simulation is only needed to check amounts the AKSOL program
+  // computes; without it those sends are refused.
+  const preview = intent
+    ? await previewTransaction(connection, tx).catch(() => null)
+    : null;
+  const policy = intent
+    ? checkTransactionPolicy(decoded, intent, feePayer, preview)
+    : { violations: [], warnings: [] };
+
+  return {
+    base64,
+    base58: bs58.encode(base64ToUint8Array(base64)),
+    feePayer,
+    blockhash: tx.message.recentBlockhash,
+    lastValidBlockHeight: lastValidBlockHeight ?? null,
+    signers: requiredSigners(tx),
+    instructions: decoded.map(describeInstruction),
+    violations: policy.violations,
+    warnings: policy.warnings,
+  };
+}
+
+// Accepts base64 or base58, whichever the signing tool produced.
+export function parseSignedTransaction(text: string): VersionedTransaction {
+  const trimmed = text.replace(/\s+/g, "");
+  if (!trimmed) throw new Error("Paste the signed transaction first.");
+
+  const decoders = [
+    () => bs58.decode(trimmed),
+    () => base64ToUint8Array(trimmed),
+  ];
+  for (const decode of decoders) {
+    try {
+      return VersionedTransaction.deserialize(decode());
+    } catch {
+      // try the other encoding
+    }
+  }
+  throw new Error(
+    "Could not decode the signed transaction as base64 or base58."
+  );
+}
+
+// Problems that must block the broadcast: a different message than the one
+// exported, or a missing / invalid signature from any required signer.
+export function verifySignedTransaction(
+  signed: VersionedTransaction,
+  exportedBase64: string
+): string[] {
+  const problems: string[] = [];
+  const expected = toVersioned(
+    decodeTransaction(exportedBase64)
+  ).message.serialize();
+  const message = signed.message.serialize();
+
+  const sameMessage =
+    expected.length === message.length &&
+    expected.every((b, i) => b === message[i]);
+  if (!sameMessage) {
+    problems.push(
+      "The signed transaction is not the one that was exported (instructions, accounts or blockhash differ)."
+    );
+    return problems;
+  }
+
+  requiredSigners(signed).forEach((signer, i) => {
+    const signature = signed.signatures[i];
+    if (!signature || signature.every((b) => b === 0)) {
+      problems.push(`Missing signature from ${signer}.`);
+      return;
+    }
+    let valid = false;
+    try {
+      valid = ed25519.verify(signature, message, new PublicKey(signer).toBytes());
+    } catch {
+      // malformed signature bytes
+    }
+    if (!valid) problems.push(`Invalid signature from ${signer}.`);
+  });
+
+  return problems;
+}
+
+export function serializeSigned(tx: VersionedTransaction): string {
+  return uint8ArrayToBase64(tx.serialize());
+}
@@ -0,0 +1,214 @@
+// src/lib/onchainInspect.ts
+//
+// One-shot on-chain check of the active network's AKSOL setup: the program
+// account, the mint and the config account, compared with the env config
+// and with what the backend reports in /aksol/status.
+import { Connection, PublicKey, type AccountInfo } from "@solana/web3.js";
+import type { AksolNetworkConfig } from "../networkConfig";
+import type { StatusResponse } from "./api";
+import { decodeAksolConfig, type AksolConfigAccount } from "./aksolConfig";
+import { decodeMint, type MintInfo } from "./tokens";
+import { describeError } from "./errors";
+import { shortAddress } from "./format";
+import { parseAddress } from "./programs";
+
+const BPF_UPGRADEABLE_LOADER_ID = new PublicKey(
+  "BPFLoaderUpgradeab1e11111111111111111111111"
+);
+// UpgradeableLoaderState::ProgramData header: u32 tag, u64 slot,
+// Option<Pubkey> upgrade authority.
+const PROGRAM_DATA_HEADER_LEN = 45;
+
+export interface ProgramInfo {
+  executable: boolean;
+  loader: string;
+  // Null for programs that are not upgradeable (or whose authority was
+  // revoked).
+  upgradeAuthority: string | null;
+  lastDeploySlot: number | null;
+}
+
+// Each part is either decoded, missing from the env (`null` with no error),
+// or failed with an error message.
+export interface InspectionPart<T> {
+  value: T | null;
+  error: string | null;
+}
+
+export interface OnChainInspection {
+  program: InspectionPart<ProgramInfo>;
+  mint: InspectionPart<MintInfo>;
+  config: InspectionPart<AksolConfigAccount>;
+  configOwner: string | null;
+}
+
+// Option<Pubkey> as bincode writes it: u8 tag followed by the key.
+function readOptionKey(data: Uint8Array, offset: number): string | null {
+  return data[offset] === 0
+    ? null
+    : new PublicKey(data.slice(offset + 1, offset + 33)).toBase58();
+}
+
+async function readProgram(
+  connection: Connection,
+  info: AccountInfo<Buffer>
+): Promise<ProgramInfo> {
+  const loader = info.owner.toBase58();
+  if (!info.owner.equals(BPF_UPGRADEABLE_LOADER_ID)) {
+    return {
+      executable: info.executable,
+      loader,
+      upgradeAuthority: null,
+      lastDeploySlot: null,
+    };
+  }
+
+  // UpgradeableLoaderState::Program points at the ProgramData account.
+  const programData = new PublicKey(info.data.subarray(4, 36));
+  const header = await connection.getAccountInfo(programData, {
+    commitment: "confirmed",
+    dataSlice: { offset: 0, length: PROGRAM_DATA_HEADER_LEN },
+  });
+  if (!header || header.data.length < PROGRAM_DATA_HEADER_LEN) {
+    throw new Error(
+      `Program data account ${shortAddress(programData.toBase58())} not found.`
+    );
+  }
+  const data = new Uint8Array(header.data);
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  return {
+    executable: info.executable,
+    loader,
+    upgradeAuthority: readOptionKey(data, 12),
+    lastDeploySlot: Number(view.getBigUint64(4, true)),
+  };
+}
+
+async function part<T>(
+  address: string | undefined,
+  what: string,
+  info: AccountInfo<Buffer> | null | undefined,
+  read: (info: AccountInfo<Buffer>) => T | Promise<T>
+): Promise<InspectionPart<T>> {
+  if (!address) return { value: null, error: null };
+  if (!parseAddress(address)) {
+    return { value: null, error: `${what} address is not a valid public key.` };
+  }
+  if (!info) {
+    return { value: null, error: `${what} account not found on this cluster.` };
+  }
+  try {
+    return { value: await read(info), error: null };
+  } catch (err) {
+    return { value: null, error: describeError(err, `Could not read ${what}.`) };
+  }
+}
+
+export async function inspectOnChain(
+  connection: Connection,
+  networkConfig: AksolNetworkConfig
+): Promise<OnChainInspection> {
+  const { programId, mint, configPda } = networkConfig;
+  const keys = [programId, mint, configPda].map(parseAddress);
+  const present = keys.filter((k): k is PublicKey => k != null);
+  const infos = present.length
+    ? await connection.getMultipleAccountsInfo(present, "confirmed")
+    : [];
+  const infoFor = (i: number) => {
+    const key = keys[i];
+    return key ? infos[present.indexOf(key)] : undefined;
+  };
+
+  const configInfo = infoFor(2);
+  const [program, mintPart, config] = await Promise.all([
+    part(programId, "Program", infoFor(0), (info) =>
+      readProgram(connection, info)
+    ),
+    part(mint, "Mint", infoFor(1), (info) => decodeMint(mint, info)),
+    part(configPda, "Config", configInfo, (info) =>
+      decodeAksolConfig(new Uint8Array(info.data))
+    ),
+  ]);
+
+  return {
+    program,
+    mint: mintPart,
+    config,
+    configOwner: configInfo?.owner.toBase58() ?? null,
+  };
+}
+
+// Every disagreement between the env config, the chain and the backend.
+export function findMismatches(
+  networkConfig: AksolNetworkConfig,
+  inspection: OnChainInspection,
+  status: StatusResponse | null
+): string[] {
+  const issues: string[] = [];
+  const { program, mint, config, configOwner } = inspection;
+
+  if (!networkConfig.programId) {
+    issues.push("No program ID is configured for this network.");
+  }
+  if (!networkConfig.mint) {
+    issues.push("No mint is configured for this network.");
+  }
+  if (!networkConfig.configPda) {
+    issues.push("No config account is configured for this network.");
+  }
+  for (const p of [program, mint, config]) {
+    if (p.error) issues.push(p.error);
+  }
+
+  if (program.value && !program.value.executable) {
+    issues.push("Program account exists but is not executable.");
+  }
+
+  if (config.value) {
+    if (networkConfig.programId && configOwner !== networkConfig.programId) {
+      issues.push("Config account is not owned by the configured program.");
+    }
+    if (networkConfig.mint && config.value.mint !== networkConfig.mint) {
+      issues.push(
+        `Config points at mint ${shortAddress(
+          config.value.mint
+        )}, but the app is configured for ${shortAddress(networkConfig.mint)}.`
+      );
+    }
+    if (config.value.taxBps !== networkConfig.taxBps) {
+      issues.push(
+        `On-chain tax is ${config.value.taxBps} bps; VITE_AKSOL_TAX_BPS says ${networkConfig.taxBps}. The on-chain value is used.`
+      );
+    }
+  }
+
+  if (status) {
+    if (status.cluster && status.cluster !== networkConfig.name) {
+      issues.push(
+        `Backend reports cluster "${status.cluster}" while the app is on ${networkConfig.name}.`
+      );
+    }
+    const backendValues: [string, string | undefined, string | undefined][] = [
+      ["program ID", status.programId, networkConfig.programId],
+      ["mint", status.mint, networkConfig.mint],
+      ["config account", status.configPda, networkConfig.configPda],
+    ];
+    for (const [what, reported, expected] of backendValues) {
+      if (reported && expected && reported !== expected) {
+        issues.push(
+          `Backend uses ${what} ${shortAddress(
+            reported
+          )}, the app ${shortAddress(expected)}.`
+        );
+      }
+    }
+    const onChainTax = config.value?.taxBps ?? networkConfig.taxBps;
+    if (status.taxBps != null && status.taxBps !== onChainTax) {
+      issues.push(
+        `Backend applies ${status.taxBps} bps tax, expected ${onChainTax}.`
+      );
+    }
+  }
+
+  return issues;
+}
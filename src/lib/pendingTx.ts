@@ -0,0 +1,128 @@
+// src/lib/pendingTx.ts
+//
+// Persistent record of every transaction the app has put on the wire. An
+// entry is written right after signing, before the broadcast, so a reload or
+// closed tab mid-confirmation does not lose the signature; the watcher picks
+// unsettled entries back up on the next load.
+import { useSyncExternalStore } from "react";
+import type { NetworkName } from "../networkConfig";
+
+export type PendingTxStatus = "pending" | "confirmed" | "failed" | "expired";
+
+export interface PendingTx {
+  signature: string;
+  network: NetworkName;
+  label: string;
+  blockhash: string;
+  lastValidBlockHeight: number | null;
+  sentAt: number; // unix ms
+  status: PendingTxStatus;
+  error: string | null;
+  settledAt: number | null;
+  // Page load that is actively confirming this entry. Entries from earlier
+  // loads (or released by an unmounted card) are resumed by the watcher.
+  owner: string | null;
+}
+
+const STORAGE_KEY = "aksol.pendingTransactions";
+// Settled entries kept around for the header indicator.
+const MAX_SETTLED = 10;
+
+export const SESSION_ID = `${Date.now().toString(36)}-${Math.random()
+  .toString(36)
+  .slice(2, 8)}`;
+
+function load(): PendingTx[] {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as PendingTx[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+let entries: PendingTx[] = load();
+const listeners = new Set<() => void>();
+
+function commit(next: PendingTx[]) {
+  const pending = next.filter((e) => e.status === "pending");
+  const settled = next
+    .filter((e) => e.status !== "pending")
+    .sort((a, b) => (b.settledAt ?? 0) - (a.settledAt ?? 0))
+    .slice(0, MAX_SETTLED);
+  entries = [...pending, ...settled];
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+  } catch {
+    // storage full or disabled; the in-memory list still works
+  }
+  listeners.forEach((listener) => listener());
+}
+
+// Another tab settled or added something.
+window.addEventListener("storage", (e) => {
+  if (e.key !== STORAGE_KEY) return;
+  entries = load();
+  listeners.forEach((listener) => listener());
+});
+
+export function recordPending(
+  entry: Omit<PendingTx, "status" | "error" | "settledAt" | "owner">
+): void {
+  commit([
+    ...entries.filter((e) => e.signature !== entry.signature),
+    {
+      ...entry,
+      status: "pending",
+      error: null,
+      settledAt: null,
+      owner: SESSION_ID,
+    },
+  ]);
+}
+
+export function settlePending(
+  signature: string,
+  status: Exclude<PendingTxStatus, "pending">,
+  error: string | null = null
+): void {
+  const entry = entries.find((e) => e.signature === signature);
+  if (!entry || entry.status !== "pending") return;
+  commit(
+    entries.map((e) =>
+      e.signature === signature
+        ? { ...e, status, error, settledAt: Date.now(), owner: null }
+        : e
+    )
+  );
+}
+
+// Hands an entry this page was confirming over to the watcher.
+export function releasePending(signature: string): void {
+  commit(
+    entries.map((e) =>
+      e.signature === signature && e.status === "pending"
+        ? { ...e, owner: null }
+        : e
+    )
+  );
+}
+
+export function clearSettled(): void {
+  commit(entries.filter((e) => e.status === "pending"));
+}
+
+function subscribe(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getPendingTransactions(): PendingTx[] {
+  return entries;
+}
+
+export function usePendingTransactions(): PendingTx[] {
+  return useSyncExternalStore(subscribe, getPendingTransactions);
+}
@@ -0,0 +1,178 @@
+// src/lib/prices.ts
+//
+// Shared SOL / AKSOL price feed. One refresh loop runs while anything is
+// subscribed (the ticker bar, fee estimates, balances), so every component
+// shows the same numbers without each polling the price APIs itself.
+import { useSyncExternalStore } from "react";
+import { MAINNET_CONFIG } from "../networkConfig";
+
+export interface PriceSnapshot {
+  solUsd: number | null;
+  aksolUsd: number | null;
+  aksolPerSol: number | null;
+  updatedAt: string | null;
+  error: string | null;
+}
+
+interface CoinGeckoSimplePrice {
+  solana?: { usd?: number };
+}
+
+interface DexscreenerPair {
+  priceUsd?: string | number;
+  priceNative?: string | number;
+  baseToken?: { symbol?: string };
+  quoteToken?: { symbol?: string };
+}
+
+interface DexscreenerTokenResponse {
+  pairs?: DexscreenerPair[] | null;
+  data?: { pairs?: DexscreenerPair[] | null };
+}
+
+const COINGECKO_SOL_URL =
+  "https://api.coingecko.com/api/v3/simple/price?ids=solana&vs_currencies=usd";
+
+// The listed AKSOL mint, used when VITE_AKSOL_MAINNET_MINT is not set. Only
+// the mainnet mint has a market, whatever network the app is on.
+const LISTED_AKSOL_MINT = "2ENXnAQFQAhQ5kF49SSj9Jm4tPb2fShYs4DDuVdtwvSK";
+
+// Dexscreener token endpoint – safe to call even if it hasn’t picked AKSOL up yet.
+// It will just return no pairs and we’ll gracefully show “price pending”.
+const AKSOL_DEXSCREENER_URL = `https://api.dexscreener.com/latest/dex/tokens/${
+  MAINNET_CONFIG.mint || LISTED_AKSOL_MINT
+}`;
+
+// A slow price API should not hold up the next refresh.
+const PRICE_TIMEOUT_MS = 10_000;
+const REFRESH_MS = 30_000;
+
+let snapshot: PriceSnapshot = {
+  solUsd: null,
+  aksolUsd: null,
+  aksolPerSol: null,
+  updatedAt: null,
+  error: null,
+};
+const listeners = new Set<() => void>();
+let timer: number | null = null;
+let controller: AbortController | null = null;
+
+function publish(next: PriceSnapshot) {
+  snapshot = next;
+  listeners.forEach((listener) => listener());
+}
+
+async function fetchPrices(signal: AbortSignal): Promise<void> {
+  try {
+    const timeout = AbortSignal.any([
+      signal,
+      AbortSignal.timeout(PRICE_TIMEOUT_MS),
+    ]);
+    const [solResp, aksolResp] = await Promise.all([
+      fetch(COINGECKO_SOL_URL, { signal: timeout }),
+      fetch(AKSOL_DEXSCREENER_URL, { signal: timeout }),
+    ]);
+
+    let solUsd: number | null = null;
+    let aksolUsd: number | null = null;
+    let aksolPerSol: number | null = null;
+
+    // --- SOL price (USD) from CoinGecko ---
+    if (solResp.ok) {
+      const solJson = (await solResp.json()) as CoinGeckoSimplePrice;
+      if (solJson?.solana?.usd != null) {
+        solUsd = Number(solJson.solana.usd);
+      }
+    }
+
+    // --- AKSOL price from Dexscreener (if available) ---
+    if (aksolResp.ok) {
+      const aksolJson = (await aksolResp.json()) as DexscreenerTokenResponse;
+      const pairs = aksolJson?.pairs ?? aksolJson?.data?.pairs ?? [];
+
+      if (pairs.length > 0) {
+        const mainPair = pairs[0];
+
+        // Direct USD price if Dexscreener has it
+        if (mainPair.priceUsd != null) {
+          aksolUsd = Number(mainPair.priceUsd);
+        }
+
+        // If quoted in SOL and priceNative is AKSOL price in SOL.
+        if (
+          mainPair.priceNative != null &&
+          (mainPair.quoteToken?.symbol === "SOL" ||
+            mainPair.baseToken?.symbol === "SOL")
+        ) {
+          const nativePrice = Number(mainPair.priceNative);
+          if (nativePrice > 0) {
+            // priceNative = 1 AKSOL in SOL → 1 SOL = 1 / priceNative AKSOL
+            aksolPerSol = 1 / nativePrice;
+          }
+        }
+      }
+    }
+
+    if (!signal.aborted) {
+      publish({
+        solUsd,
+        aksolUsd,
+        aksolPerSol,
+        updatedAt: new Date().toISOString(),
+        error: null,
+      });
+    }
+  } catch (err) {
+    if (!signal.aborted) {
+      console.error("Price fetch failed:", err);
+      // Keep the last known prices; they are better than nothing.
+      publish({
+        ...snapshot,
+        updatedAt: new Date().toISOString(),
+        error: "Live pricing temporarily unavailable",
+      });
+    }
+  }
+}
+
+function start() {
+  controller = new AbortController();
+  const { signal } = controller;
+  void fetchPrices(signal);
+  timer = window.setInterval(() => void fetchPrices(signal), REFRESH_MS);
+}
+
+function stop() {
+  controller?.abort();
+  controller = null;
+  if (timer != null) window.clearInterval(timer);
+  timer = null;
+}
+
+function subscribe(listener: () => void): () => void {
+  listeners.add(listener);
+  if (listeners.size === 1) start();
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) stop();
+  };
+}
+
+function getSnapshot(): PriceSnapshot {
+  return snapshot;
+}
+
+export function usePrices(): PriceSnapshot {
+  return useSyncExternalStore(subscribe, getSnapshot);
+}
+
+// "$0.0123" for a lamport amount, or null while the SOL price is unknown.
+export function lamportsToUsd(
+  lamports: number,
+  solUsd: number | null
+): string | null {
+  if (solUsd == null) return null;
+  const usd = (lamports / 1_000_000_000) * solUsd;
+  return `$${usd < 0.01 ? usd.toFixed(4) : usd.toFixed(2)}`;
+}
@@ -0,0 +1,213 @@
+// src/lib/priorityFee.ts
+//
+// Client-side priority fees for backend-built transactions. Estimates a
+// compute-unit price from getRecentPrioritizationFees for the accounts the
+// transaction writes, then rewrites its compute-budget instructions when the
+// transaction has not been signed by anyone yet.
+import {
+  ComputeBudgetProgram,
+  Connection,
+  PublicKey,
+  TransactionMessage,
+  VersionedTransaction,
+  type MessageAccountKeys,
+} from "@solana/web3.js";
+import type { AnyTransaction } from "./solanaTx";
+import { fetchLookupTables, toVersioned } from "./txPreview";
+import { decodeInstructions } from "./txDecode";
+import { MAX_PRIORITY_FEE_LAMPORTS, priorityFeeLamports } from "./txPolicy";
+import { COMPUTE_BUDGET_PROGRAM_ID } from "./programs";
+
+export type PriorityLevel = "low" | "normal" | "fast";
+
+export const PRIORITY_LEVELS: PriorityLevel[] = ["low", "normal", "fast"];
+
+export interface PriorityFeeQuote {
+  level: PriorityLevel;
+  // Price per compute unit in the transaction that will be signed.
+  microLamports: number;
+  computeUnitLimit: number | null;
+  // Total priority fee on top of the base network fee.
+  priorityLamports: number;
+  // False when the transaction is kept exactly as the backend built it.
+  adjusted: boolean;
+  note: string | null;
+}
+
+// Percentile of recent fees per preset, plus a floor so "fast" still means
+// something on quiet clusters where every recent fee is zero.
+const LEVEL_PERCENTILE: Record<PriorityLevel, number> = {
+  low: 0.25,
+  normal: 0.5,
+  fast: 0.9,
+};
+const LEVEL_FLOOR_MICRO_LAMPORTS: Record<PriorityLevel, number> = {
+  low: 0,
+  normal: 1_000,
+  fast: 10_000,
+};
+
+// getRecentPrioritizationFees accepts at most 128 accounts.
+const MAX_FEE_ACCOUNTS = 128;
+// Headroom over the simulated compute units so the limit is not too tight.
+const COMPUTE_UNIT_MARGIN = 1.15;
+const COMPUTE_UNIT_EXTRA = 1_000;
+// Upper bound used for the fee cap when the limit is left at the default.
+const MAX_COMPUTE_UNITS = 1_400_000;
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = Math.min(sorted.length - 1, Math.floor(p * sorted.length));
+  return sorted[index];
+}
+
+export async function estimatePriorityFee(
+  connection: Connection,
+  writableAccounts: PublicKey[],
+  level: PriorityLevel
+): Promise<number> {
+  const recent = await connection.getRecentPrioritizationFees({
+    lockedWritableAccounts: writableAccounts.slice(0, MAX_FEE_ACCOUNTS),
+  });
+  const fees = recent
+    .map((r) => r.prioritizationFee)
+    .sort((a, b) => a - b);
+  return Math.max(
+    percentile(fees, LEVEL_PERCENTILE[level]),
+    LEVEL_FLOOR_MICRO_LAMPORTS[level]
+  );
+}
+
+async function simulateUnits(
+  connection: Connection,
+  tx: VersionedTransaction
+): Promise<number | null> {
+  const { value } = await connection.simulateTransaction(tx, {
+    sigVerify: false,
+    replaceRecentBlockhash: true,
+  });
+  if (value.err || !value.unitsConsumed) return null;
+  return (
+    Math.ceil(value.unitsConsumed * COMPUTE_UNIT_MARGIN) + COMPUTE_UNIT_EXTRA
+  );
+}
+
+function quoteFor(
+  tx: VersionedTransaction,
+  keys: MessageAccountKeys,
+  level: PriorityLevel,
+  adjusted: boolean,
+  note: string | null
+): PriorityFeeQuote {
+  const instructions = decodeInstructions(tx, keys, undefined);
+  let microLamports = 0;
+  let computeUnitLimit: number | null = null;
+  for (const ix of instructions) {
+    if (ix.kind === "compute-unit-price") {
+      microLamports = Number(ix.microLamports);
+    }
+    if (ix.kind === "compute-unit-limit") computeUnitLimit = ix.units;
+  }
+  return {
+    level,
+    microLamports,
+    computeUnitLimit,
+    priorityLamports: Number(priorityFeeLamports(instructions)),
+    adjusted,
+    note,
+  };
+}
+
+// Returns the transaction to review and sign, with compute-budget
+// instructions set for `level` where possible. A transaction that already
+// carries a signature (the backend co-signed it) is returned unchanged,
+// since editing it would invalidate that signature.
+export async function applyPriorityFee(
+  connection: Connection,
+  tx: AnyTransaction,
+  level: PriorityLevel
+): Promise<{ transaction: AnyTransaction; quote: PriorityFeeQuote }> {
+  const versioned = toVersioned(tx);
+  const tables = await fetchLookupTables(connection, versioned);
+  const keys = versioned.message.getAccountKeys({
+    addressLookupTableAccounts: tables,
+  });
+
+  const alreadySigned =
+    tx instanceof VersionedTransaction
+      ? tx.signatures.some((sig) => sig.some((b) => b !== 0))
+      : tx.signatures.some((s) => s.signature?.some((b) => b !== 0));
+  if (alreadySigned) {
+    return {
+      transaction: tx,
+      quote: quoteFor(
+        versioned,
+        keys,
+        level,
+        false,
+        "Already signed by the backend; its fee settings are kept."
+      ),
+    };
+  }
+
+  const message = TransactionMessage.decompile(versioned.message, {
+    addressLookupTableAccounts: tables,
+  });
+  const writable = message.instructions.flatMap((ix) =>
+    ix.keys.filter((k) => k.isWritable).map((k) => k.pubkey)
+  );
+  const isComputeBudget = (programId: PublicKey) =>
+    programId.equals(COMPUTE_BUDGET_PROGRAM_ID);
+  const existing = decodeInstructions(versioned, keys, undefined);
+  const hasLimit = existing.some((ix) => ix.kind === "compute-unit-limit");
+
+  const [price, units] = await Promise.all([
+    estimatePriorityFee(connection, writable, level),
+    hasLimit ? null : simulateUnits(connection, versioned).catch(() => null),
+  ]);
+
+  // Keep a backend-provided limit; replace only the price. Decompiled
+  // instructions line up index-for-index with the decoded ones.
+  const kept = message.instructions.filter(
+    (ix, i) =>
+      !isComputeBudget(ix.programId) || existing[i].kind !== "compute-unit-price"
+  );
+
+  const limit =
+    units ??
+    existing.reduce(
+      (acc, d) => (d.kind === "compute-unit-limit" ? d.units : acc),
+      MAX_COMPUTE_UNITS
+    );
+  // Never pick a price that would trip the policy's priority-fee ceiling.
+  const cappedPrice = Math.min(
+    price,
+    Math.floor((MAX_PRIORITY_FEE_LAMPORTS * 1_000_000) / limit)
+  );
+
+  message.instructions = [
+    ...(units != null
+      ? [ComputeBudgetProgram.setComputeUnitLimit({ units })]
+      : []),
+    ComputeBudgetProgram.setComputeUnitPrice({ microLamports: cappedPrice }),
+    ...kept,
+  ];
+
+  const rebuilt = new VersionedTransaction(
+    versioned.version === "legacy"
+      ? message.compileToLegacyMessage()
+      : message.compileToV0Message(tables)
+  );
+  return {
+    transaction: rebuilt,
+    quote: quoteFor(
+      rebuilt,
+      rebuilt.message.getAccountKeys({ addressLookupTableAccounts: tables }),
+      level,
+      true,
+      units == null && !hasLimit
+        ? "Compute units could not be simulated; the default limit applies."
+        : null
+    ),
+  };
+}
@@ -0,0 +1,41 @@
+// src/lib/programs.ts
+// Well-known program IDs the dApp inspects in backend-built transactions,
+// plus the accounts the portfolio needs (metadata program, wrapped SOL).
+import { ComputeBudgetProgram, PublicKey, SystemProgram } from "@solana/web3.js";
+
+export const SYSTEM_PROGRAM_ID = SystemProgram.programId;
+export const COMPUTE_BUDGET_PROGRAM_ID = ComputeBudgetProgram.programId;
+export const TOKEN_PROGRAM_ID = new PublicKey(
+  "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA"
+);
+export const TOKEN_2022_PROGRAM_ID = new PublicKey(
+  "TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb"
+);
+export const ASSOCIATED_TOKEN_PROGRAM_ID = new PublicKey(
+  "ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL"
+);
+export const TOKEN_METADATA_PROGRAM_ID = new PublicKey(
+  "metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s"
+);
+export const WRAPPED_SOL_MINT = new PublicKey(
+  "So11111111111111111111111111111111111111112"
+);
+export const MEMO_PROGRAM_ID = new PublicKey(
+  "MemoSq4gqABAXKb96qnH8TvqcaNBxpEgUVL6WcWMkZG"
+);
+
+export function isTokenProgram(programId: PublicKey | string): boolean {
+  const id = programId.toString();
+  return (
+    id === TOKEN_PROGRAM_ID.toBase58() || id === TOKEN_2022_PROGRAM_ID.toBase58()
+  );
+}
+
+// A configured address as a key, or null when it is unset or malformed.
+export function parseAddress(value: string | undefined): PublicKey | null {
+  try {
+    return value ? new PublicKey(value) : null;
+  } catch {
+    return null;
+  }
+}
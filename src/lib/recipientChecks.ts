@@ -0,0 +1,163 @@
+// src/lib/recipientChecks.ts
+//
+// Pre-send checks on a recipient address. Parsing is strict (base58 that
+// decodes to exactly 32 bytes); everything else is a risk the user is warned
+// about rather than a hard error, since PDAs and fresh wallets are legitimate
+// destinations too.
+import bs58 from "bs58";
+import {
+  PublicKey,
+  type AccountInfo,
+  type ParsedAccountData,
+} from "@solana/web3.js";
+import { formatTokenAmount } from "./format";
+import { isTokenProgram } from "./programs";
+
+export type RecipientRiskKind =
+  | "self"
+  | "off-curve"
+  | "mint"
+  | "program"
+  | "token-account"
+  | "no-token-account"
+  | "unused";
+
+export interface RecipientRisk {
+  kind: RecipientRiskKind;
+  // "danger" risks lose funds in the common case and need acknowledging.
+  severity: "danger" | "caution" | "info";
+  message: string;
+}
+
+export type ParsedRecipient =
+  | { ok: true; address: string }
+  | { ok: false; error: string };
+
+// What the chain says about the address itself.
+export interface RecipientAccountFacts {
+  account: AccountInfo<Buffer | ParsedAccountData> | null;
+  // Any signature mentions it; only looked up when there is no account.
+  hasHistory: boolean;
+}
+
+export function parseRecipient(value: string): ParsedRecipient {
+  const trimmed = value.trim();
+  if (!trimmed) return { ok: false, error: "Enter a recipient address." };
+  let bytes: Uint8Array;
+  try {
+    bytes = bs58.decode(trimmed);
+  } catch {
+    return {
+      ok: false,
+      error:
+        "Recipient address is not valid base58 (it cannot contain 0, O, I or l).",
+    };
+  }
+  if (bytes.length !== 32) {
+    return {
+      ok: false,
+      error: `Recipient address decodes to ${bytes.length} bytes; a Solana address is 32.`,
+    };
+  }
+  return { ok: true, address: trimmed };
+}
+
+// Risks that follow from the address alone.
+export function addressRisks(
+  address: string,
+  owner: string | null,
+  mint: string | null
+): RecipientRisk[] {
+  const risks: RecipientRisk[] = [];
+  if (owner && address === owner) {
+    risks.push({
+      kind: "self",
+      severity: "caution",
+      message: "This is your own wallet; you would pay the tax to send to yourself.",
+    });
+  }
+  if (mint && address === mint) {
+    risks.push({
+      kind: "mint",
+      severity: "danger",
+      message:
+        "This is the AKSOL mint, not a wallet. Tokens sent here cannot be recovered.",
+    });
+  }
+  if (!PublicKey.isOnCurve(new PublicKey(address).toBytes())) {
+    risks.push({
+      kind: "off-curve",
+      severity: "caution",
+      message:
+        "This address is off-curve (a program-derived address) with no private key. Only its program can move funds out; send only if it is a vault or multisig you know.",
+    });
+  }
+  return risks;
+}
+
+// Risks that follow from the account stored at the address.
+export function accountRisks(
+  address: string,
+  mint: string | null,
+  facts: RecipientAccountFacts
+): RecipientRisk[] {
+  const { account } = facts;
+  if (!account) {
+    return facts.hasHistory
+      ? []
+      : [
+          {
+            kind: "unused",
+            severity: "caution",
+            message:
+              "This address has never been used on-chain. Double-check it was copied in full.",
+          },
+        ];
+  }
+  if (account.executable) {
+    return [
+      {
+        kind: "program",
+        severity: "danger",
+        message:
+          "This is a program, not a wallet. Tokens sent to it cannot be recovered.",
+      },
+    ];
+  }
+  const parsed = "parsed" in account.data ? account.data.parsed : null;
+  if (isTokenProgram(account.owner) && parsed?.type === "mint") {
+    // The AKSOL mint is already flagged from the address.
+    return address === mint
+      ? []
+      : [
+          {
+            kind: "mint",
+            severity: "danger",
+            message:
+              "This is a token mint, not a wallet. Tokens sent here cannot be recovered.",
+          },
+        ];
+  }
+  if (isTokenProgram(account.owner) && parsed?.type === "account") {
+    const holder: string = parsed.info.owner;
+    return [
+      {
+        kind: "token-account",
+        severity: "danger",
+        message: `This is a token account, not a wallet. Send to its owner ${holder} instead; AKSOL sent here goes to an account nobody can spend from.`,
+      },
+    ];
+  }
+  return [];
+}
+
+export function missingTokenAccountRisk(rentLamports: number): RecipientRisk {
+  return {
+    kind: "no-token-account",
+    severity: "info",
+    message: `The recipient has no AKSOL token account yet. Creating one costs ${formatTokenAmount(
+      BigInt(rentLamports),
+      9
+    )} SOL of rent.`,
+  };
+}
@@ -0,0 +1,117 @@
+// src/lib/request.ts
+//
+// Shared request plumbing: per-call timeouts, caller cancellation and
+// jittered exponential backoff. Retries are opt-in and must only be used for
+// calls that are safe to repeat (status checks, quotes, reads).
+import { useCallback, useEffect, useRef } from "react";
+
+export interface CallOptions {
+  // Cancels the call, e.g. when the component that started it unmounts.
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  shouldRetry: (err: unknown) => boolean;
+}
+
+export class RequestTimeoutError extends Error {
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`Request timed out after ${Math.round(timeoutMs / 1000)}s`);
+    this.name = "RequestTimeoutError";
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+// True when the caller cancelled (not when the call timed out).
+export function isAbortError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === "AbortError";
+}
+
+// Runs `fn` with a signal that fires on caller abort or after `timeoutMs`.
+// A timeout surfaces as RequestTimeoutError; a caller abort as AbortError.
+export async function withTimeout<T>(
+  fn: (signal: AbortSignal) => Promise<T>,
+  { signal, timeoutMs }: CallOptions
+): Promise<T> {
+  if (!timeoutMs) {
+    return fn(signal ?? new AbortController().signal);
+  }
+
+  const timeoutSignal = AbortSignal.timeout(timeoutMs);
+  const combined = signal
+    ? AbortSignal.any([signal, timeoutSignal])
+    : timeoutSignal;
+
+  try {
+    return await fn(combined);
+  } catch (err) {
+    if (timeoutSignal.aborted && !signal?.aborted) {
+      throw new RequestTimeoutError(timeoutMs);
+    }
+    throw err;
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const id = window.setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      window.clearTimeout(id);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// Full-jitter backoff: wait a random time up to base * 2^attempt.
+export async function retryWithBackoff<T>(
+  fn: (attempt: number) => Promise<T>,
+  {
+    retries,
+    baseDelayMs = 400,
+    maxDelayMs = 5_000,
+    signal,
+    shouldRetry,
+  }: RetryOptions
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (err) {
+      if (attempt >= retries || signal?.aborted || !shouldRetry(err)) {
+        throw err;
+      }
+      const cap = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      await sleep(Math.random() * cap, signal);
+    }
+  }
+}
+
+// Hands out one AbortSignal per request. Starting a new request cancels the
+// previous one, and everything is cancelled when the component unmounts.
+export function useRequestSignal(): () => AbortSignal {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return useCallback(() => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    return controller.signal;
+  }, []);
+}
@@ -0,0 +1,211 @@
+// src/lib/rpcPool.ts
+//
+// Ordered pool of Solana RPC endpoints for one network. The pool probes each
+// endpoint in the background (getSlot latency + how far behind the tip it is),
+// keeps the first healthy endpoint in list order active, and exposes a
+// `fetch` that web3.js can use so failed calls move on to the next endpoint.
+import { describeError } from "./errors";
+
+export interface RpcEndpointHealth {
+  url: string;
+  healthy: boolean;
+  latencyMs: number | null;
+  slot: number | null;
+  slotsBehind: number | null;
+  lastError: string | null;
+  lastCheckedAt: number | null; // unix ms
+}
+
+export interface RpcPoolSnapshot {
+  activeUrl: string;
+  endpoints: RpcEndpointHealth[];
+}
+
+export interface RpcPoolOptions {
+  probeIntervalMs?: number;
+  probeTimeoutMs?: number;
+  // Per-attempt timeout for proxied RPC calls; a hung node counts as failed.
+  requestTimeoutMs?: number;
+  // Endpoints further behind the best known slot are treated as unhealthy.
+  maxSlotLag?: number;
+  fetchImpl?: typeof fetch;
+}
+
+export interface RpcPool {
+  fetch: typeof fetch;
+  start: () => void;
+  stop: () => void;
+  probeAll: () => Promise<void>;
+  subscribe: (listener: () => void) => () => void;
+  getSnapshot: () => RpcPoolSnapshot;
+}
+
+const DEFAULT_PROBE_INTERVAL_MS = 15_000;
+const DEFAULT_PROBE_TIMEOUT_MS = 4_000;
+const DEFAULT_REQUEST_TIMEOUT_MS = 20_000;
+const DEFAULT_MAX_SLOT_LAG = 50;
+
+// 429 and 5xx mean "try another node"; anything else is the caller's problem.
+function shouldFailOver(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+export function createRpcPool(
+  urls: string[],
+  options: RpcPoolOptions = {}
+): RpcPool {
+  if (urls.length === 0) {
+    throw new Error("RPC pool needs at least one endpoint");
+  }
+
+  const probeIntervalMs = options.probeIntervalMs ?? DEFAULT_PROBE_INTERVAL_MS;
+  const probeTimeoutMs = options.probeTimeoutMs ?? DEFAULT_PROBE_TIMEOUT_MS;
+  const requestTimeoutMs =
+    options.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+  const maxSlotLag = options.maxSlotLag ?? DEFAULT_MAX_SLOT_LAG;
+  const baseFetch = options.fetchImpl ?? globalThis.fetch.bind(globalThis);
+
+  let endpoints: RpcEndpointHealth[] = urls.map((url) => ({
+    url,
+    healthy: true,
+    latencyMs: null,
+    slot: null,
+    slotsBehind: null,
+    lastError: null,
+    lastCheckedAt: null,
+  }));
+  let activeUrl = urls[0];
+  let snapshot: RpcPoolSnapshot = { activeUrl, endpoints };
+  let timer: number | null = null;
+  const listeners = new Set<() => void>();
+
+  const publish = () => {
+    const preferred = endpoints.find((e) => e.healthy);
+    activeUrl = preferred ? preferred.url : urls[0];
+    snapshot = { activeUrl, endpoints };
+    listeners.forEach((listener) => listener());
+  };
+
+  const update = (url: string, patch: Partial<RpcEndpointHealth>) => {
+    endpoints = endpoints.map((e) => (e.url === url ? { ...e, ...patch } : e));
+  };
+
+  const probeOne = async (url: string) => {
+    const started = performance.now();
+    try {
+      const res = await baseFetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "getSlot" }),
+        signal: AbortSignal.timeout(probeTimeoutMs),
+      });
+      if (!res.ok) {
+        throw new Error(`HTTP ${res.status}`);
+      }
+      const json = (await res.json()) as { result?: unknown; error?: unknown };
+      if (typeof json.result !== "number") {
+        throw new Error("getSlot returned no slot");
+      }
+      return {
+        url,
+        slot: json.result,
+        latencyMs: Math.round(performance.now() - started),
+        error: null,
+      };
+    } catch (err) {
+      return { url, slot: null, latencyMs: null, error: describeError(err, "Unknown RPC error") };
+    }
+  };
+
+  const probeAll = async () => {
+    const results = await Promise.all(urls.map(probeOne));
+    const tip = Math.max(
+      0,
+      ...results.map((r) => (r.slot == null ? 0 : r.slot))
+    );
+    const checkedAt = Date.now();
+
+    for (const r of results) {
+      const slotsBehind = r.slot == null ? null : tip - r.slot;
+      update(r.url, {
+        slot: r.slot,
+        latencyMs: r.latencyMs,
+        slotsBehind,
+        lastError:
+          r.error ??
+          (slotsBehind != null && slotsBehind > maxSlotLag
+            ? `${slotsBehind} slots behind tip`
+            : null),
+        healthy:
+          r.error == null && slotsBehind != null && slotsBehind <= maxSlotLag,
+        lastCheckedAt: checkedAt,
+      });
+    }
+    publish();
+  };
+
+  // Try the active endpoint first, then every other endpoint in list order.
+  // JSON-RPC bodies are replayable as-is; web3.js never sends a request whose
+  // effect depends on which node receives it.
+  const poolFetch: typeof fetch = async (_input, init) => {
+    const order = [activeUrl, ...urls.filter((u) => u !== activeUrl)];
+    let lastError: unknown = null;
+
+    for (const url of order) {
+      const timeout = AbortSignal.timeout(requestTimeoutMs);
+      const signal = init?.signal
+        ? AbortSignal.any([init.signal, timeout])
+        : timeout;
+      try {
+        const res = await baseFetch(url, { ...init, signal });
+        if (!shouldFailOver(res.status)) {
+          return res;
+        }
+        lastError = new Error(`HTTP ${res.status} from ${url}`);
+        update(url, {
+          healthy: false,
+          lastError: `HTTP ${res.status}`,
+          lastCheckedAt: Date.now(),
+        });
+      } catch (err) {
+        if (init?.signal?.aborted) throw err;
+        lastError = err;
+        update(url, {
+          healthy: false,
+          lastError: timeout.aborted
+            ? `timed out after ${requestTimeoutMs} ms`
+            : describeError(err, "Unknown RPC error"),
+          lastCheckedAt: Date.now(),
+        });
+      }
+      publish();
+    }
+
+    throw lastError instanceof Error
+      ? lastError
+      : new Error("All RPC endpoints failed");
+  };
+
+  return {
+    fetch: poolFetch,
+    start: () => {
+      if (timer != null) return;
+      void probeAll();
+      timer = window.setInterval(() => void probeAll(), probeIntervalMs);
+    },
+    stop: () => {
+      if (timer != null) {
+        window.clearInterval(timer);
+        timer = null;
+      }
+    },
+    probeAll,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    getSnapshot: () => snapshot,
+  };
+}
@@ -0,0 +1,216 @@
+// src/lib/session.ts
+//
+// Sign-In With Solana session. The wallet signs a nonce-based sign-in
+// message (the SIWS / EIP-4361 text format), the backend checks the
+// signature and issues a session token, and api.ts sends that token with
+// every request so the backend knows `fromPubkey` really is the caller.
+// One wallet on one cluster is signed in at a time; the session survives
+// reloads until it expires or the backend rejects it.
+import { useSyncExternalStore } from "react";
+import { PublicKey } from "@solana/web3.js";
+import bs58 from "bs58";
+import { NETWORKS, type NetworkName } from "../networkConfig";
+import {
+  onAuthRejected,
+  requestAuthNonce,
+  setAuthToken,
+  signOutSession,
+  verifySignIn,
+} from "./api";
+
+export interface Session {
+  address: string;
+  // Network the sign-in message named; the token is only good there.
+  cluster: NetworkName;
+  token: string;
+  expiresAt: number; // unix ms
+}
+
+export interface SignInFields {
+  domain: string;
+  address: string;
+  statement: string;
+  uri: string;
+  chainId: string;
+  nonce: string;
+  issuedAt: string; // ISO 8601
+  expirationTime: string; // ISO 8601
+}
+
+const STORAGE_KEY = "aksol.session";
+const SIGN_IN_STATEMENT = "Sign in to the AKSOL control panel.";
+// How long the signed message itself is valid; the session lasts as long as
+// the backend says.
+const MESSAGE_TTL_MS = 10 * 60_000;
+// setTimeout's ceiling; longer sessions are re-armed on the next load.
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+const CHAIN_IDS: Record<NetworkName, string> = {
+  "mainnet-beta": "mainnet",
+  devnet: "devnet",
+  localnet: "localnet",
+};
+
+export function buildSignInMessage(fields: SignInFields): string {
+  return [
+    `${fields.domain} wants you to sign in with your Solana account:`,
+    fields.address,
+    "",
+    fields.statement,
+    "",
+    `URI: ${fields.uri}`,
+    "Version: 1",
+    `Chain ID: ${fields.chainId}`,
+    `Nonce: ${fields.nonce}`,
+    `Issued At: ${fields.issuedAt}`,
+    `Expiration Time: ${fields.expirationTime}`,
+  ].join("\n");
+}
+
+function isAddress(value: string): boolean {
+  try {
+    new PublicKey(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// A well-formed, unexpired session from stored JSON, or null.
+function toSession(item: unknown): Session | null {
+  if (typeof item !== "object" || item === null) return null;
+  const { address, cluster, token, expiresAt } = item as Partial<
+    Record<keyof Session, unknown>
+  >;
+  if (
+    typeof address !== "string" ||
+    !isAddress(address) ||
+    typeof cluster !== "string" ||
+    !Object.hasOwn(NETWORKS, cluster) ||
+    typeof token !== "string" ||
+    !token ||
+    typeof expiresAt !== "number" ||
+    !(expiresAt > Date.now())
+  ) {
+    return null;
+  }
+  return { address, cluster: cluster as NetworkName, token, expiresAt };
+}
+
+function load(): Session | null {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    let stored: Session | null = null;
+    try {
+      stored = toSession(JSON.parse(raw));
+    } catch {
+      // not JSON; dropped below
+    }
+    // Malformed or expired entries are dropped, not kept around.
+    if (!stored) window.localStorage.removeItem(STORAGE_KEY);
+    return stored;
+  } catch {
+    return null;
+  }
+}
+
+let session: Session | null = null;
+let expiryTimer: number | null = null;
+const listeners = new Set<() => void>();
+
+function apply(next: Session | null) {
+  session = next;
+  setAuthToken(next?.token ?? null);
+  if (expiryTimer != null) window.clearTimeout(expiryTimer);
+  expiryTimer = next
+    ? window.setTimeout(
+        () => commit(null),
+        Math.min(next.expiresAt - Date.now(), MAX_TIMER_MS)
+      )
+    : null;
+  listeners.forEach((listener) => listener());
+}
+
+function commit(next: Session | null) {
+  try {
+    if (next) {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    } else {
+      window.localStorage.removeItem(STORAGE_KEY);
+    }
+  } catch {
+    // storage full or disabled; the in-memory session still works
+  }
+  apply(next);
+}
+
+apply(load());
+
+// Signed in or out in another tab.
+window.addEventListener("storage", (e) => {
+  if (e.key === STORAGE_KEY) apply(load());
+});
+
+onAuthRejected(() => commit(null));
+
+export async function signInWithSolana(params: {
+  address: string;
+  cluster: NetworkName;
+  signMessage: (message: Uint8Array) => Promise<Uint8Array>;
+}): Promise<Session> {
+  const { address, cluster, signMessage } = params;
+  const { nonce } = await requestAuthNonce({ address, cluster });
+  const now = Date.now();
+  const message = buildSignInMessage({
+    domain: window.location.host,
+    address,
+    statement: SIGN_IN_STATEMENT,
+    uri: window.location.origin,
+    chainId: CHAIN_IDS[cluster],
+    nonce,
+    issuedAt: new Date(now).toISOString(),
+    expirationTime: new Date(now + MESSAGE_TTL_MS).toISOString(),
+  });
+  const signature = await signMessage(new TextEncoder().encode(message));
+  const { token, expiresAt } = await verifySignIn({
+    address,
+    message,
+    signature: bs58.encode(signature),
+  });
+  const next = { address, cluster, token, expiresAt };
+  commit(next);
+  return next;
+}
+
+// Revokes the token on the backend (best effort) and forgets it locally.
+export async function signOut(): Promise<void> {
+  if (!session) return;
+  try {
+    await signOutSession();
+  } catch (err) {
+    console.warn("Sign-out request failed:", err);
+  }
+  commit(null);
+}
+
+// Forgets the session without telling the backend, e.g. when a different
+// wallet connects or the network changes.
+export function clearSession(): void {
+  if (session) commit(null);
+}
+
+function subscribe(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function getSession(): Session | null {
+  return session;
+}
+
+export function useSession(): Session | null {
+  return useSyncExternalStore(subscribe, getSession);
+}
@@ -1,9 +1,17 @@
 // src/lib/solanaTx.ts
-import { Transaction, VersionedTransaction } from "@solana/web3.js";
+import {
+  Connection,
+  Transaction,
+  TransactionExpiredBlockheightExceededError,
+  VersionedTransaction,
+  type SignatureStatus,
+  type TransactionError,
+} from "@solana/web3.js";
+import bs58 from "bs58";
 
 export type AnyTransaction = Transaction | VersionedTransaction;
 
-function base64ToUint8Array(base64: string): Uint8Array {
+export function base64ToUint8Array(base64: string): Uint8Array {
   const binary = atob(base64);
   const bytes = new Uint8Array(binary.length);
   for (let i = 0; i < binary.length; i++) {
@@ -12,6 +20,14 @@ function base64ToUint8Array(base64: string): Uint8Array {
   return bytes;
 }
 
+export function uint8ArrayToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
 export function decodeTransaction(base64: string): AnyTransaction {
   const bytes = base64ToUint8Array(base64);
 
@@ -23,3 +39,246 @@ export function decodeTransaction(base64: string): AnyTransaction {
     return Transaction.from(bytes);
   }
 }
+
+export function getRecentBlockhash(tx: AnyTransaction): string {
+  const blockhash =
+    tx instanceof VersionedTransaction
+      ? tx.message.recentBlockhash
+      : tx.recentBlockhash;
+  if (!blockhash) {
+    throw new Error("Transaction has no recent blockhash");
+  }
+  return blockhash;
+}
+
+// The fee payer's signature doubles as the transaction ID.
+export function getTransactionSignature(tx: AnyTransaction): string | null {
+  const sig =
+    tx instanceof VersionedTransaction ? tx.signatures[0] : tx.signature;
+  if (!sig || sig.every((b) => b === 0)) return null;
+  return bs58.encode(sig);
+}
+
+export function serializeTransaction(tx: AnyTransaction): Uint8Array {
+  return tx instanceof VersionedTransaction
+    ? tx.serialize()
+    : tx.serialize({ requireAllSignatures: true, verifySignatures: false });
+}
+
+// ---------- Lifecycle pipeline ----------
+
+export type TxPhase =
+  | "awaiting-signature"
+  | "sent"
+  | "confirmed"
+  | "finalized"
+  | "expired"
+  | "failed";
+
+export interface TxProgress {
+  phase: TxPhase;
+  signature?: string;
+  error?: string;
+  // Position within a multi-transaction batch (1-based), when there is one.
+  step?: number;
+  steps?: number;
+}
+
+export type SignTransactionFn = <T extends AnyTransaction>(tx: T) => Promise<T>;
+
+// How the wallet gets the transaction on chain. "sign" returns signed bytes
+// that this module broadcasts (and rebroadcasts); "send" lets the wallet
+// sign and submit in one step and only hands back the signature.
+export type TransactionSubmitter =
+  | { kind: "sign"; signTransaction: SignTransactionFn }
+  | { kind: "send"; sendTransaction: (tx: AnyTransaction) => Promise<string> };
+
+export interface ExecuteTransactionArgs {
+  connection: Connection;
+  // Transaction to sign (or already signed, with a pass-through "sign"
+  // submitter). Review and fee adjustments happen before this point.
+  transaction: AnyTransaction;
+  submitter: TransactionSubmitter;
+  // Expiry of the transaction's blockhash, when the builder reported it.
+  // Without it, expiry is detected with isBlockhashValid instead.
+  lastValidBlockHeight?: number;
+  // Called with the signature after signing, before the first broadcast,
+  // so callers can persist it in case the page goes away mid-confirmation.
+  // With a "send" submitter it fires as soon as the wallet reports it.
+  onSigned?: (signature: string, blockhash: string) => void;
+  onProgress?: (progress: TxProgress) => void;
+  signal?: AbortSignal;
+}
+
+export class TransactionFailedError extends Error {
+  readonly signature: string;
+  readonly txError: TransactionError;
+
+  constructor(signature: string, txError: TransactionError) {
+    super(`Transaction ${signature} failed: ${JSON.stringify(txError)}`);
+    this.name = "TransactionFailedError";
+    this.signature = signature;
+    this.txError = txError;
+  }
+}
+
+// Thrown when the user declines at the pre-sign review.
+export class SigningCancelledError extends Error {
+  constructor() {
+    super("Cancelled before signing.");
+    this.name = "SigningCancelledError";
+  }
+}
+
+const POLL_INTERVAL_MS = 2_000;
+const FINALIZE_TIMEOUT_MS = 90_000;
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const id = window.setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        window.clearTimeout(id);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+}
+
+async function hasExpired(
+  connection: Connection,
+  blockhash: string,
+  lastValidBlockHeight: number | undefined
+): Promise<boolean> {
+  if (lastValidBlockHeight) {
+    const height = await connection.getBlockHeight("confirmed");
+    return height > lastValidBlockHeight;
+  }
+  const { value } = await connection.isBlockhashValid(blockhash, {
+    commitment: "confirmed",
+  });
+  return !value;
+}
+
+// Keeps polling after "confirmed" so the UI can show "finalized" too. Runs
+// detached; the caller already has its signature.
+async function watchFinalized(
+  connection: Connection,
+  signature: string,
+  onProgress: ((progress: TxProgress) => void) | undefined,
+  signal: AbortSignal | undefined
+): Promise<void> {
+  const deadline = Date.now() + FINALIZE_TIMEOUT_MS;
+  while (Date.now() < deadline && !signal?.aborted) {
+    await delay(POLL_INTERVAL_MS, signal);
+    try {
+      const { value } = await connection.getSignatureStatuses([signature]);
+      if (value[0]?.confirmationStatus === "finalized") {
+        onProgress?.({ phase: "finalized", signature });
+        return;
+      }
+    } catch {
+      // transient RPC error; try again on the next tick
+    }
+  }
+}
+
+// Sign → send → confirm by blockhash expiry. When we hold the signed bytes
+// they are rebroadcast every poll until the signature lands or the blockhash
+// expires, so a dropped packet does not strand the transfer. Resolves with
+// the signature once it is confirmed; rejects with TransactionFailedError or
+// TransactionExpiredBlockheightExceededError.
+export async function executeTransaction({
+  connection,
+  transaction: tx,
+  submitter,
+  lastValidBlockHeight,
+  onSigned,
+  onProgress,
+  signal,
+}: ExecuteTransactionArgs): Promise<string> {
+  const blockhash = getRecentBlockhash(tx);
+
+  onProgress?.({ phase: "awaiting-signature" });
+
+  // Signed bytes we can rebroadcast; null when the wallet sent it itself.
+  let raw: Uint8Array | null = null;
+  let signature: string;
+  if (submitter.kind === "sign") {
+    const signed = await submitter.signTransaction(tx);
+    raw = serializeTransaction(signed);
+
+    const signedSignature = getTransactionSignature(signed);
+    if (signedSignature) {
+      onSigned?.(signedSignature, blockhash);
+    }
+
+    signature = await connection.sendRawTransaction(raw, { maxRetries: 0 });
+  } else {
+    signature = await submitter.sendTransaction(tx);
+    onSigned?.(signature, blockhash);
+  }
+  onProgress?.({ phase: "sent", signature });
+
+  // True once the status shows the transaction confirmed; throws
+  // TransactionFailedError if it landed with an error.
+  const settle = (status: SignatureStatus | null): boolean => {
+    if (status?.err) {
+      onProgress?.({
+        phase: "failed",
+        signature,
+        error: JSON.stringify(status.err),
+      });
+      throw new TransactionFailedError(signature, status.err);
+    }
+    if (
+      status?.confirmationStatus !== "confirmed" &&
+      status?.confirmationStatus !== "finalized"
+    ) {
+      return false;
+    }
+    onProgress?.({ phase: "confirmed", signature });
+    if (status.confirmationStatus === "finalized") {
+      onProgress?.({ phase: "finalized", signature });
+    } else {
+      void watchFinalized(connection, signature, onProgress, signal);
+    }
+    return true;
+  };
+
+  for (;;) {
+    await delay(POLL_INTERVAL_MS, signal);
+    if (signal?.aborted) {
+      throw new DOMException("Confirmation cancelled", "AbortError");
+    }
+
+    const { value } = await connection.getSignatureStatuses([signature]);
+    if (settle(value[0])) return signature;
+
+    if (await hasExpired(connection, blockhash, lastValidBlockHeight)) {
+      // One last look: it may have landed in the final valid block. Only a
+      // confirmed landing counts; a processed one can still be dropped.
+      const { value: last } = await connection.getSignatureStatuses([
+        signature,
+      ]);
+      if (settle(last[0])) return signature;
+      onProgress?.({
+        phase: "expired",
+        signature,
+        error: "Blockhash expired before the transaction was confirmed",
+      });
+      throw new TransactionExpiredBlockheightExceededError(signature);
+    }
+
+    // Not landed yet and still valid: rebroadcast the same signed bytes.
+    if (raw) {
+      connection
+        .sendRawTransaction(raw, { skipPreflight: true, maxRetries: 0 })
+        .catch(() => {
+          // Already processed or node hiccup; the status poll decides.
+        });
+    }
+  }
+}
@@ -0,0 +1,133 @@
+// src/lib/tokenBalances.ts
+//
+// Token balances of a wallet from jsonParsed token accounts. A wallet can
+// hold the same mint in several accounts (the associated one plus any
+// created by hand or by other programs), so balances are summed per mint.
+import {
+  Connection,
+  PublicKey,
+  type AccountInfo,
+  type ParsedAccountData,
+} from "@solana/web3.js";
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from "./programs";
+import { associatedTokenAddress } from "./tokens";
+
+export interface TokenAccountBalance {
+  address: string;
+  mint: string;
+  tokenProgram: string;
+  amount: bigint; // raw units
+  decimals: number;
+  // Token-2022 transfer fees withheld in the account (not spendable).
+  withheld: bigint;
+  isAssociated: boolean;
+  // Rent held by the account, returned when it is closed.
+  lamports: number;
+}
+
+export interface TokenHolding {
+  mint: string;
+  decimals: number;
+  total: bigint;
+  withheld: bigint;
+  // Associated account first, then by balance.
+  accounts: TokenAccountBalance[];
+}
+
+// The slice of the RPC's jsonParsed token account we read.
+interface ParsedTokenAccountInfo {
+  mint: string;
+  tokenAmount: { amount: string; decimals: number };
+  extensions?: { extension: string; state?: { withheldAmount?: number } }[];
+}
+
+function parseTokenAccount(
+  owner: string,
+  address: PublicKey,
+  account: AccountInfo<ParsedAccountData>
+): TokenAccountBalance {
+  const info = account.data.parsed.info as ParsedTokenAccountInfo;
+  const tokenProgram = account.owner.toBase58();
+  const withheld = info.extensions?.find(
+    (ext) => ext.extension === "transferFeeAmount"
+  )?.state?.withheldAmount;
+  return {
+    address: address.toBase58(),
+    mint: info.mint,
+    tokenProgram,
+    amount: BigInt(info.tokenAmount.amount),
+    decimals: info.tokenAmount.decimals,
+    withheld: BigInt(withheld ?? 0),
+    isAssociated:
+      associatedTokenAddress(owner, { address: info.mint, tokenProgram }) ===
+      address.toBase58(),
+    lamports: account.lamports,
+  };
+}
+
+function toHolding(
+  mint: string,
+  accounts: TokenAccountBalance[]
+): TokenHolding {
+  const sorted = [...accounts].sort((a, b) =>
+    a.isAssociated !== b.isAssociated
+      ? a.isAssociated
+        ? -1
+        : 1
+      : a.amount === b.amount
+      ? 0
+      : a.amount > b.amount
+      ? -1
+      : 1
+  );
+  return {
+    mint,
+    decimals: accounts[0]?.decimals ?? 0,
+    total: accounts.reduce((sum, a) => sum + a.amount, 0n),
+    withheld: accounts.reduce((sum, a) => sum + a.withheld, 0n),
+    accounts: sorted,
+  };
+}
+
+// Every account the wallet holds for `mint`, under either token program
+// (the mint filter lets the RPC pick the right one).
+export async function fetchMintHolding(
+  connection: Connection,
+  owner: PublicKey,
+  mint: string
+): Promise<TokenHolding> {
+  const { value } = await connection.getParsedTokenAccountsByOwner(
+    owner,
+    { mint: new PublicKey(mint) },
+    "confirmed"
+  );
+  const accounts = value.map(({ pubkey, account }) =>
+    parseTokenAccount(owner.toBase58(), pubkey, account)
+  );
+  return toHolding(mint, accounts);
+}
+
+// Every token account the wallet owns, under both token programs, grouped
+// by mint.
+export async function fetchAllHoldings(
+  connection: Connection,
+  owner: PublicKey
+): Promise<TokenHolding[]> {
+  const responses = await Promise.all(
+    [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID].map((programId) =>
+      connection.getParsedTokenAccountsByOwner(
+        owner,
+        { programId },
+        "confirmed"
+      )
+    )
+  );
+  const byMint = new Map<string, TokenAccountBalance[]>();
+  for (const { value } of responses) {
+    for (const { pubkey, account } of value) {
+      const balance = parseTokenAccount(owner.toBase58(), pubkey, account);
+      byMint.set(balance.mint, [...(byMint.get(balance.mint) ?? []), balance]);
+    }
+  }
+  return [...byMint].map(([mint, accounts]) => toHolding(mint, accounts));
+}
@@ -0,0 +1,133 @@
+// src/lib/tokenMetadata.ts
+//
+// Name, symbol and logo for arbitrary mints. Token-2022 mints can carry
+// their metadata in an extension; everything else is looked up in the
+// Metaplex token metadata account. Logos live in the off-chain JSON the
+// metadata URI points at.
+import { Connection, PublicKey, type AccountInfo } from "@solana/web3.js";
+import { TOKEN_METADATA_PROGRAM_ID } from "./programs";
+import { decodeMint, readBorshStrings } from "./tokens";
+
+export interface TokenMetadata {
+  name: string;
+  symbol: string;
+  uri: string;
+  // Image from the off-chain JSON, when it could be fetched.
+  image: string | null;
+}
+
+// getMultipleAccountsInfo takes at most 100 keys per call.
+const ACCOUNTS_PER_REQUEST = 100;
+const OFFCHAIN_TIMEOUT_MS = 5_000;
+// Metaplex Metadata: key (u8), update authority, mint, then name / symbol /
+// uri as borsh strings (padded with NULs).
+const METAPLEX_STRINGS_OFFSET = 65;
+
+// Off-chain JSON is fetched once per URI for the whole session.
+const imageCache = new Map<string, Promise<string | null>>();
+
+function metadataAddress(mint: PublicKey): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [
+      new TextEncoder().encode("metadata"),
+      TOKEN_METADATA_PROGRAM_ID.toBytes(),
+      mint.toBytes(),
+    ],
+    TOKEN_METADATA_PROGRAM_ID
+  )[0];
+}
+
+async function getAccounts(
+  connection: Connection,
+  keys: PublicKey[]
+): Promise<(AccountInfo<Buffer> | null)[]> {
+  const out: (AccountInfo<Buffer> | null)[] = [];
+  for (let i = 0; i < keys.length; i += ACCOUNTS_PER_REQUEST) {
+    out.push(
+      ...(await connection.getMultipleAccountsInfo(
+        keys.slice(i, i + ACCOUNTS_PER_REQUEST),
+        "confirmed"
+      ))
+    );
+  }
+  return out;
+}
+
+function clean(value: string): string {
+  return value.replace(/\0/g, "").trim();
+}
+
+function decodeMetaplex(
+  info: AccountInfo<Buffer> | null
+): Omit<TokenMetadata, "image"> | null {
+  if (!info || !info.owner.equals(TOKEN_METADATA_PROGRAM_ID)) return null;
+  try {
+    const [name, symbol, uri] = readBorshStrings(
+      new Uint8Array(info.data),
+      METAPLEX_STRINGS_OFFSET,
+      3
+    ).map(clean);
+    return { name, symbol, uri };
+  } catch {
+    return null;
+  }
+}
+
+// Only web and IPFS links; anything else (javascript:, file:) is dropped.
+function toHttpUrl(uri: string): string | null {
+  if (uri.startsWith("ipfs://")) {
+    return `https://ipfs.io/ipfs/${uri.slice("ipfs://".length)}`;
+  }
+  return /^https?:\/\//.test(uri) ? uri : null;
+}
+
+function fetchImage(uri: string): Promise<string | null> {
+  const url = toHttpUrl(uri);
+  if (!url) return Promise.resolve(null);
+  let pending = imageCache.get(url);
+  if (!pending) {
+    pending = fetch(url, { signal: AbortSignal.timeout(OFFCHAIN_TIMEOUT_MS) })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((json: { image?: unknown } | null) =>
+        typeof json?.image === "string" ? toHttpUrl(json.image) : null
+      )
+      .catch(() => null);
+    imageCache.set(url, pending);
+  }
+  return pending;
+}
+
+// Metadata for each mint that has any; mints without metadata are left out.
+export async function fetchTokenMetadata(
+  connection: Connection,
+  mints: string[]
+): Promise<Map<string, TokenMetadata>> {
+  const keys = mints.map((mint) => new PublicKey(mint));
+  const [mintInfos, metaplexInfos] = await Promise.all([
+    getAccounts(connection, keys),
+    getAccounts(connection, keys.map(metadataAddress)),
+  ]);
+
+  const found = new Map<string, Omit<TokenMetadata, "image">>();
+  mints.forEach((mint, i) => {
+    let onMint: Omit<TokenMetadata, "image"> | null = null;
+    const info = mintInfos[i];
+    if (info) {
+      try {
+        onMint = decodeMint(mint, info).extensions.metadata;
+      } catch {
+        // Not a mint we can read; fall back to Metaplex.
+      }
+    }
+    const metadata = onMint ?? decodeMetaplex(metaplexInfos[i]);
+    if (metadata) found.set(mint, metadata);
+  });
+
+  const entries = await Promise.all(
+    [...found].map(
+      async ([mint, metadata]) =>
+        [mint, { ...metadata, image: await fetchImage(metadata.uri) }] as const
+    )
+  );
+  return new Map(entries);
+}
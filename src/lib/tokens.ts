@@ -0,0 +1,304 @@
+// src/lib/tokens.ts
+//
+// SPL token helpers shared by the taxed send, the balance views and the
+// status inspector: mint decoding, associated token account derivation and
+// exact UI ↔ raw amount conversion, plus Token-2022 mint extensions (the
+// transfer fee in particular, which changes what a recipient receives).
+import { Buffer } from "buffer";
+import {
+  PublicKey,
+  TransactionInstruction,
+  type AccountInfo,
+} from "@solana/web3.js";
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  isTokenProgram,
+} from "./programs";
+import { shortAddress } from "./format";
+
+export interface TransferFee {
+  epoch: bigint;
+  maximumFee: bigint;
+  basisPoints: number;
+}
+
+export interface TransferFeeConfig {
+  configAuthority: string | null;
+  withdrawAuthority: string | null;
+  // Fees already harvested into the mint, not yet withdrawn.
+  withheldAmount: bigint;
+  // `newer` takes over from `older` at its epoch.
+  older: TransferFee;
+  newer: TransferFee;
+}
+
+export interface MintExtensions {
+  // Raw extension type numbers, in account order.
+  types: number[];
+  // Readable names for the same list.
+  names: string[];
+  transferFee: TransferFeeConfig | null;
+  metadataPointer: {
+    authority: string | null;
+    metadataAddress: string | null;
+  } | null;
+  // Token metadata stored on the mint itself.
+  metadata: { name: string; symbol: string; uri: string } | null;
+}
+
+export interface MintInfo {
+  address: string;
+  tokenProgram: string;
+  isToken2022: boolean;
+  decimals: number;
+  supply: bigint;
+  mintAuthority: string | null;
+  freezeAuthority: string | null;
+  extensions: MintExtensions;
+}
+
+// Base token account size. Token-2022 accounts add an account-type byte and
+// one TLV entry (4-byte header + value) per account extension.
+const TOKEN_ACCOUNT_LEN = 165;
+const TLV_HEADER_LEN = 4;
+
+// Token-2022 extension types (spl-token-2022 `ExtensionType`).
+const EXT_TRANSFER_FEE_CONFIG = 1;
+const EXT_NON_TRANSFERABLE = 9;
+const EXT_TRANSFER_HOOK = 14;
+const EXT_METADATA_POINTER = 18;
+const EXT_TOKEN_METADATA = 19;
+const EXT_PAUSABLE = 26;
+
+const EXTENSION_NAMES: Record<number, string> = {
+  1: "Transfer fee",
+  3: "Mint close authority",
+  4: "Confidential transfers",
+  6: "Default account state",
+  9: "Non-transferable",
+  10: "Interest-bearing",
+  12: "Permanent delegate",
+  14: "Transfer hook",
+  16: "Confidential transfer fees",
+  18: "Metadata pointer",
+  19: "Token metadata",
+  20: "Group pointer",
+  21: "Token group",
+  22: "Group member pointer",
+  23: "Group member",
+  24: "Confidential mint/burn",
+  25: "Scaled UI amount",
+  26: "Pausable",
+};
+
+// Account extensions every associated token account of a mint gets, by the
+// mint extension that requires them, with their value size.
+const ACCOUNT_EXTENSION_LEN: Record<number, number> = {
+  [EXT_TRANSFER_FEE_CONFIG]: 8, // TransferFeeAmount
+  [EXT_NON_TRANSFERABLE]: 0, // NonTransferableAccount
+  [EXT_TRANSFER_HOOK]: 1, // TransferHookAccount
+  [EXT_PAUSABLE]: 0, // PausableAccount
+};
+
+const NO_EXTENSIONS: MintExtensions = {
+  types: [],
+  names: [],
+  transferFee: null,
+  metadataPointer: null,
+  metadata: null,
+};
+
+// COption<Pubkey>: u32 tag followed by the key.
+function readCOptionKey(data: Uint8Array, offset: number): string | null {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  return view.getUint32(offset, true) === 0
+    ? null
+    : new PublicKey(data.slice(offset + 4, offset + 36)).toBase58();
+}
+
+// OptionalNonZeroPubkey: 32 bytes, all zero meaning "none".
+function readOptionalKey(data: Uint8Array, offset: number): string | null {
+  const bytes = data.slice(offset, offset + 32);
+  return bytes.every((b) => b === 0) ? null : new PublicKey(bytes).toBase58();
+}
+
+function readTransferFee(view: DataView, offset: number): TransferFee {
+  return {
+    epoch: view.getBigUint64(offset, true),
+    maximumFee: view.getBigUint64(offset + 8, true),
+    basisPoints: view.getUint16(offset + 16, true),
+  };
+}
+
+// Borsh strings: u32 length followed by UTF-8 bytes.
+export function readBorshStrings(
+  data: Uint8Array,
+  offset: number,
+  count: number
+): string[] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const decoder = new TextDecoder();
+  const out: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const len = view.getUint32(offset, true);
+    out.push(decoder.decode(data.subarray(offset + 4, offset + 4 + len)));
+    offset += 4 + len;
+  }
+  return out;
+}
+
+// Token-2022 mints pad the base layout to the token account size, then store
+// an account-type byte (1 = mint) and TLV entries: u16 type, u16 length,
+// value.
+function decodeMintExtensions(data: Uint8Array): MintExtensions {
+  if (data.length <= TOKEN_ACCOUNT_LEN || data[TOKEN_ACCOUNT_LEN] !== 1) {
+    return NO_EXTENSIONS;
+  }
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const extensions: MintExtensions = {
+    types: [],
+    names: [],
+    transferFee: null,
+    metadataPointer: null,
+    metadata: null,
+  };
+
+  let offset = TOKEN_ACCOUNT_LEN + 1;
+  while (offset + TLV_HEADER_LEN <= data.length) {
+    const type = view.getUint16(offset, true);
+    const len = view.getUint16(offset + 2, true);
+    const start = offset + TLV_HEADER_LEN;
+    if (type === 0 || start + len > data.length) break;
+
+    extensions.types.push(type);
+    extensions.names.push(EXTENSION_NAMES[type] ?? `Extension #${type}`);
+    if (type === EXT_TRANSFER_FEE_CONFIG && len >= 108) {
+      extensions.transferFee = {
+        configAuthority: readOptionalKey(data, start),
+        withdrawAuthority: readOptionalKey(data, start + 32),
+        withheldAmount: view.getBigUint64(start + 64, true),
+        older: readTransferFee(view, start + 72),
+        newer: readTransferFee(view, start + 90),
+      };
+    } else if (type === EXT_METADATA_POINTER && len >= 64) {
+      extensions.metadataPointer = {
+        authority: readOptionalKey(data, start),
+        metadataAddress: readOptionalKey(data, start + 32),
+      };
+    } else if (type === EXT_TOKEN_METADATA && len >= 76) {
+      // update authority, mint, then name / symbol / uri.
+      try {
+        const [name, symbol, uri] = readBorshStrings(data, start + 64, 3);
+        extensions.metadata = { name, symbol, uri };
+      } catch {
+        // Malformed metadata is shown as the bare extension name.
+      }
+    }
+    offset = start + len;
+  }
+  return extensions;
+}
+
+// SPL mint layout (Token-2022 extensions live after the first 82 bytes).
+export function decodeMint(
+  address: string,
+  info: AccountInfo<Buffer | Uint8Array>
+): MintInfo {
+  if (!isTokenProgram(info.owner)) {
+    throw new Error(
+      `Mint is owned by ${shortAddress(info.owner.toBase58())}, not a token program.`
+    );
+  }
+  const data = new Uint8Array(info.data);
+  if (data.length < 82 || data[45] !== 1) {
+    throw new Error("Account is not an initialized mint.");
+  }
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  return {
+    address,
+    tokenProgram: info.owner.toBase58(),
+    isToken2022: info.owner.equals(TOKEN_2022_PROGRAM_ID),
+    decimals: data[44],
+    supply: view.getBigUint64(36, true),
+    mintAuthority: readCOptionKey(data, 0),
+    freezeAuthority: readCOptionKey(data, 46),
+    extensions: decodeMintExtensions(data),
+  };
+}
+
+// The fee schedule in force at `epoch`.
+export function activeTransferFee(
+  config: TransferFeeConfig,
+  epoch: bigint
+): TransferFee {
+  return epoch >= config.newer.epoch ? config.newer : config.older;
+}
+
+// Fee Token-2022 withholds from a transfer of `amount`: basis points rounded
+// up, capped at the maximum fee.
+export function transferFeeFor(fee: TransferFee, amount: bigint): bigint {
+  if (fee.basisPoints === 0 || amount === 0n) return 0n;
+  const raw = (amount * BigInt(fee.basisPoints) + 9_999n) / 10_000n;
+  return raw > fee.maximumFee ? fee.maximumFee : raw;
+}
+
+export function associatedTokenAddress(
+  owner: string,
+  mint: Pick<MintInfo, "address" | "tokenProgram">
+): string {
+  const [address] = PublicKey.findProgramAddressSync(
+    [
+      new PublicKey(owner).toBuffer(),
+      new PublicKey(mint.tokenProgram).toBuffer(),
+      new PublicKey(mint.address).toBuffer(),
+    ],
+    ASSOCIATED_TOKEN_PROGRAM_ID
+  );
+  return address.toBase58();
+}
+
+// Size of a new associated token account for the mint: Token-2022 ones
+// always carry ImmutableOwner, plus whatever the mint's extensions require.
+export function tokenAccountSize(mint: MintInfo): number {
+  if (!mint.isToken2022) return TOKEN_ACCOUNT_LEN;
+  let size = TOKEN_ACCOUNT_LEN + 1 + TLV_HEADER_LEN;
+  for (const type of mint.extensions.types) {
+    const len = ACCOUNT_EXTENSION_LEN[type];
+    if (len != null) size += TLV_HEADER_LEN + len;
+  }
+  return size;
+}
+
+// "1.5" with 6 decimals → 1_500_000n, without going through floating point.
+// Null for anything that is not a plain non-negative decimal or has more
+// fractional digits than the mint supports.
+export function uiToRawAmount(amountUi: string, decimals: number): bigint | null {
+  const match = /^(\d*)(?:\.(\d*))?$/.exec(amountUi.trim());
+  if (!match || (!match[1] && !match[2])) return null;
+  const [, whole, fraction = ""] = match;
+  if (fraction.length > decimals) return null;
+  return (
+    BigInt(whole || "0") * 10n ** BigInt(decimals) +
+    BigInt(fraction.padEnd(decimals, "0") || "0")
+  );
+}
+
+// CloseAccount: sends the account's rent to `destination`. Only empty
+// accounts (and, on Token-2022, ones with no withheld fees) can be closed.
+export function closeAccountInstruction(
+  account: string,
+  destination: string,
+  owner: string,
+  tokenProgram: string
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: new PublicKey(tokenProgram),
+    keys: [
+      { pubkey: new PublicKey(account), isSigner: false, isWritable: true },
+      { pubkey: new PublicKey(destination), isSigner: false, isWritable: true },
+      { pubkey: new PublicKey(owner), isSigner: true, isWritable: false },
+    ],
+    data: Buffer.from([9]),
+  });
+}
@@ -0,0 +1,275 @@
+// src/lib/txDecode.ts
+//
+// Minimal instruction decoder for the programs AKSOL transactions are
+// expected to touch. Anything it does not positively recognise comes back as
+// "unknown" so the policy checker can refuse it.
+import type { MessageAccountKeys, VersionedTransaction } from "@solana/web3.js";
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  COMPUTE_BUDGET_PROGRAM_ID,
+  MEMO_PROGRAM_ID,
+  SYSTEM_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  isTokenProgram,
+} from "./programs";
+import { shortAddress } from "./format";
+
+export type DecodedInstruction =
+  | {
+      kind: "system-transfer";
+      programId: string;
+      from: string;
+      to: string;
+      lamports: bigint;
+    }
+  | {
+      kind: "token-transfer";
+      programId: string;
+      source: string;
+      destination: string;
+      authority: string;
+      amount: bigint;
+      // Only present for TransferChecked.
+      mint: string | null;
+      decimals: number | null;
+      // Token-2022 fee the transfer declares (TransferCheckedWithFee only).
+      fee: bigint | null;
+    }
+  | {
+      kind: "token-close";
+      programId: string;
+      account: string;
+      destination: string;
+      authority: string;
+    }
+  | {
+      kind: "ata-create";
+      programId: string;
+      payer: string;
+      account: string;
+      owner: string;
+      mint: string;
+      idempotent: boolean;
+    }
+  | {
+      kind: "compute-unit-limit";
+      programId: string;
+      units: number;
+    }
+  | {
+      kind: "compute-unit-price";
+      programId: string;
+      microLamports: bigint;
+    }
+  | { kind: "memo"; programId: string; text: string }
+  | {
+      kind: "aksol";
+      programId: string;
+      accounts: string[];
+      data: Uint8Array;
+    }
+  | {
+      kind: "unknown";
+      programId: string;
+      accounts: string[];
+      data: Uint8Array;
+      reason: string;
+    };
+
+interface RawInstruction {
+  programId: string;
+  accounts: string[];
+  data: Uint8Array;
+}
+
+function view(data: Uint8Array): DataView {
+  return new DataView(data.buffer, data.byteOffset, data.byteLength);
+}
+
+function unknown(ix: RawInstruction, reason: string): DecodedInstruction {
+  return { kind: "unknown", ...ix, reason };
+}
+
+// System program: u32 LE discriminator. Only Transfer (2) is recognised.
+function decodeSystem(ix: RawInstruction): DecodedInstruction {
+  if (ix.data.length < 4) return unknown(ix, "truncated system instruction");
+  const tag = view(ix.data).getUint32(0, true);
+  if (tag === 2 && ix.data.length >= 12 && ix.accounts.length >= 2) {
+    return {
+      kind: "system-transfer",
+      programId: ix.programId,
+      from: ix.accounts[0],
+      to: ix.accounts[1],
+      lamports: view(ix.data).getBigUint64(4, true),
+    };
+  }
+  return unknown(ix, `system instruction #${tag} is not a plain transfer`);
+}
+
+// SPL Token / Token-2022: u8 discriminator. Transfer (3), TransferChecked
+// (12), Token-2022's TransferCheckedWithFee (26, 1) and CloseAccount (9) are
+// recognised; approvals, authority changes and fee withdrawals deliberately
+// are not. Closes are only accepted by the policy when the user asked for
+// them.
+function decodeToken(ix: RawInstruction): DecodedInstruction {
+  if (ix.data.length < 1) return unknown(ix, "empty token instruction");
+  const tag = ix.data[0];
+  if (tag === 3 && ix.data.length >= 9 && ix.accounts.length >= 3) {
+    return {
+      kind: "token-transfer",
+      programId: ix.programId,
+      source: ix.accounts[0],
+      destination: ix.accounts[1],
+      authority: ix.accounts[2],
+      amount: view(ix.data).getBigUint64(1, true),
+      mint: null,
+      decimals: null,
+      fee: null,
+    };
+  }
+  if (tag === 12 && ix.data.length >= 10 && ix.accounts.length >= 4) {
+    return {
+      kind: "token-transfer",
+      programId: ix.programId,
+      source: ix.accounts[0],
+      mint: ix.accounts[1],
+      destination: ix.accounts[2],
+      authority: ix.accounts[3],
+      amount: view(ix.data).getBigUint64(1, true),
+      decimals: ix.data[9],
+      fee: null,
+    };
+  }
+  if (
+    tag === 26 &&
+    ix.programId === TOKEN_2022_PROGRAM_ID.toBase58() &&
+    ix.data[1] === 1 &&
+    ix.data.length >= 19 &&
+    ix.accounts.length >= 4
+  ) {
+    return {
+      kind: "token-transfer",
+      programId: ix.programId,
+      source: ix.accounts[0],
+      mint: ix.accounts[1],
+      destination: ix.accounts[2],
+      authority: ix.accounts[3],
+      amount: view(ix.data).getBigUint64(2, true),
+      decimals: ix.data[10],
+      fee: view(ix.data).getBigUint64(11, true),
+    };
+  }
+  if (tag === 9 && ix.accounts.length >= 3) {
+    return {
+      kind: "token-close",
+      programId: ix.programId,
+      account: ix.accounts[0],
+      destination: ix.accounts[1],
+      authority: ix.accounts[2],
+    };
+  }
+  return unknown(ix, `token instruction #${tag} is not a transfer`);
+}
+
+function decodeAssociatedToken(ix: RawInstruction): DecodedInstruction {
+  const tag = ix.data.length === 0 ? 0 : ix.data[0];
+  if ((tag === 0 || tag === 1) && ix.accounts.length >= 4) {
+    return {
+      kind: "ata-create",
+      programId: ix.programId,
+      payer: ix.accounts[0],
+      account: ix.accounts[1],
+      owner: ix.accounts[2],
+      mint: ix.accounts[3],
+      idempotent: tag === 1,
+    };
+  }
+  return unknown(ix, `associated-token instruction #${tag} is not a create`);
+}
+
+function decodeComputeBudget(ix: RawInstruction): DecodedInstruction {
+  const tag = ix.data[0];
+  if (tag === 2 && ix.data.length >= 5) {
+    return {
+      kind: "compute-unit-limit",
+      programId: ix.programId,
+      units: view(ix.data).getUint32(1, true),
+    };
+  }
+  if (tag === 3 && ix.data.length >= 9) {
+    return {
+      kind: "compute-unit-price",
+      programId: ix.programId,
+      microLamports: view(ix.data).getBigUint64(1, true),
+    };
+  }
+  return unknown(ix, `compute-budget instruction #${tag} is not recognised`);
+}
+
+export function decodeInstructions(
+  tx: VersionedTransaction,
+  keys: MessageAccountKeys,
+  aksolProgramId: string | undefined
+): DecodedInstruction[] {
+  return tx.message.compiledInstructions.map((compiled) => {
+    const ix: RawInstruction = {
+      programId: keys.get(compiled.programIdIndex)!.toBase58(),
+      accounts: compiled.accountKeyIndexes.map((i) => keys.get(i)!.toBase58()),
+      data: compiled.data,
+    };
+
+    if (ix.programId === SYSTEM_PROGRAM_ID.toBase58()) return decodeSystem(ix);
+    if (isTokenProgram(ix.programId)) return decodeToken(ix);
+    if (ix.programId === ASSOCIATED_TOKEN_PROGRAM_ID.toBase58()) {
+      return decodeAssociatedToken(ix);
+    }
+    if (ix.programId === COMPUTE_BUDGET_PROGRAM_ID.toBase58()) {
+      return decodeComputeBudget(ix);
+    }
+    if (ix.programId === MEMO_PROGRAM_ID.toBase58()) {
+      return {
+        kind: "memo",
+        programId: ix.programId,
+        text: new TextDecoder().decode(ix.data),
+      };
+    }
+    if (aksolProgramId && ix.programId === aksolProgramId) {
+      return { kind: "aksol", ...ix };
+    }
+    return unknown(ix, `program ${ix.programId} is not an AKSOL program`);
+  });
+}
+
+// One-line, human-readable summary of an instruction.
+export function describeInstruction(ix: DecodedInstruction): string {
+  switch (ix.kind) {
+    case "system-transfer":
+      return `Transfer ${ix.lamports} lamports ${shortAddress(
+        ix.from
+      )} → ${shortAddress(ix.to)}`;
+    case "token-transfer":
+      return `Token transfer of ${ix.amount} raw units ${shortAddress(
+        ix.source
+      )} → ${shortAddress(ix.destination)} (authority ${shortAddress(
+        ix.authority
+      )}${ix.fee != null ? `, fee ${ix.fee}` : ""})`;
+    case "token-close":
+      return `Close token account ${shortAddress(
+        ix.account
+      )}, rent to ${shortAddress(ix.destination)}`;
+    case "ata-create":
+      return `Create token account ${shortAddress(ix.account)} for ${shortAddress(
+        ix.owner
+      )} (mint ${shortAddress(ix.mint)})`;
+    case "compute-unit-limit":
+      return `Set compute unit limit to ${ix.units}`;
+    case "compute-unit-price":
+      return `Set priority fee to ${ix.microLamports} micro-lamports per CU`;
+    case "memo":
+      return `Memo: "${ix.text}"`;
+    case "aksol":
+      return `AKSOL program call with ${ix.accounts.length} accounts`;
+    case "unknown":
+      return `Unrecognised: ${ix.reason}`;
+  }
+}
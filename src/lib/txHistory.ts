@@ -0,0 +1,310 @@
+// src/lib/txHistory.ts
+//
+// Wallet history for the AKSOL views: pages through the signatures of the
+// wallet and its AKSOL token accounts (a transfer into an existing token
+// account does not mention the wallet itself), fetches the parsed transactions and labels each one from its
+// balance changes (who gained or lost AKSOL and SOL), so the labels hold
+// whether the backend, the AKSOL program or another wallet built the
+// transaction.
+import {
+  Connection,
+  PublicKey,
+  type ConfirmedSignatureInfo,
+  type ParsedTransactionWithMeta,
+  type TokenBalance,
+} from "@solana/web3.js";
+import { formatTokenAmount } from "./format";
+import { fetchMintHolding } from "./tokenBalances";
+
+export type HistoryType =
+  | "taxed-send"
+  | "zero-percent"
+  | "storefront"
+  | "incoming"
+  | "outgoing"
+  | "other";
+
+export const HISTORY_TYPE_LABELS: Record<HistoryType, string> = {
+  "taxed-send": "Taxed send",
+  "zero-percent": "0% route purchase",
+  storefront: "Storefront fulfillment",
+  incoming: "Incoming transfer",
+  outgoing: "Outgoing transfer",
+  other: "Other",
+};
+
+export interface HistoryRow {
+  signature: string;
+  blockTime: number | null; // unix seconds
+  type: HistoryType;
+  status: "success" | "failed";
+  // AKSOL that left or reached the wallet, raw units.
+  aksolAmount: bigint | null;
+  decimals: number | null;
+  // SOL paid into the 0% route, excluding the network fee.
+  solLamports: bigint | null;
+  counterparty: string | null;
+  // AKSOL that went to the config's tax wallets.
+  taxPaid: bigint | null;
+}
+
+export interface HistoryContext {
+  owner: string;
+  mint?: string;
+  taxWallets: string[];
+  zeroRouteWallet?: string;
+  storefrontWallet?: string;
+}
+
+// Where each paged address left off: the `before` signature for its next
+// page, or null once it has no more. Addresses not listed start from the
+// newest signature.
+export type HistoryCursor = Record<string, string | null>;
+
+export interface HistoryPage {
+  rows: HistoryRow[];
+  // Pass back as `before` for the next page; null when there is none.
+  before: HistoryCursor | null;
+}
+
+export const HISTORY_PAGE_SIZE = 25;
+
+interface TokenDeltas {
+  // Net AKSOL change per owning wallet.
+  deltas: Map<string, bigint>;
+  // Net AKSOL change per token account, with its owner.
+  accounts: Map<string, { owner: string; delta: bigint }>;
+  decimals: number | null;
+}
+
+function tokenDeltas(tx: ParsedTransactionWithMeta, mint: string): TokenDeltas {
+  const deltas = new Map<string, bigint>();
+  const accounts = new Map<string, { owner: string; delta: bigint }>();
+  const keys = tx.transaction.message.accountKeys;
+  let decimals: number | null = null;
+  const apply = (balances: TokenBalance[] | null | undefined, sign: bigint) => {
+    for (const b of balances ?? []) {
+      if (b.mint !== mint || !b.owner) continue;
+      decimals = b.uiTokenAmount.decimals;
+      const change = sign * BigInt(b.uiTokenAmount.amount);
+      deltas.set(b.owner, (deltas.get(b.owner) ?? 0n) + change);
+      const address = keys[b.accountIndex].pubkey.toBase58();
+      const prev = accounts.get(address)?.delta ?? 0n;
+      accounts.set(address, { owner: b.owner, delta: prev + change });
+    }
+  };
+  apply(tx.meta?.preTokenBalances, -1n);
+  apply(tx.meta?.postTokenBalances, 1n);
+  return { deltas, accounts, decimals };
+}
+
+// Net lamport change per account, with the network fee added back for the
+// fee payer.
+function solDeltas(tx: ParsedTransactionWithMeta): Map<string, bigint> {
+  const deltas = new Map<string, bigint>();
+  const meta = tx.meta;
+  if (!meta) return deltas;
+  tx.transaction.message.accountKeys.forEach((key, i) => {
+    const delta = BigInt(meta.postBalances[i] - meta.preBalances[i]);
+    const fee = i === 0 ? BigInt(meta.fee) : 0n;
+    deltas.set(key.pubkey.toBase58(), delta + fee);
+  });
+  return deltas;
+}
+
+// The counterparty with the largest change in the given direction.
+function largest(
+  deltas: Map<string, bigint>,
+  direction: 1n | -1n,
+  exclude: Set<string>
+): string | null {
+  let best: string | null = null;
+  let bestAmount = 0n;
+  for (const [address, delta] of deltas) {
+    const amount = delta * direction;
+    if (exclude.has(address) || amount <= bestAmount) continue;
+    best = address;
+    bestAmount = amount;
+  }
+  return best;
+}
+
+export function classifyTransaction(
+  signature: string,
+  blockTime: number | null,
+  tx: ParsedTransactionWithMeta | null,
+  ctx: HistoryContext
+): HistoryRow {
+  const row: HistoryRow = {
+    signature,
+    blockTime: tx?.blockTime ?? blockTime,
+    type: "other",
+    status: tx?.meta?.err ? "failed" : "success",
+    aksolAmount: null,
+    decimals: null,
+    solLamports: null,
+    counterparty: null,
+    taxPaid: null,
+  };
+  if (!tx) return row;
+
+  const sol = solDeltas(tx);
+  const { deltas, accounts, decimals }: TokenDeltas = ctx.mint
+    ? tokenDeltas(tx, ctx.mint)
+    : { deltas: new Map(), accounts: new Map(), decimals: null };
+  const own = deltas.get(ctx.owner) ?? 0n;
+  const taxWallets = new Set(ctx.taxWallets);
+  row.decimals = decimals;
+
+  // SOL into the 0% route wallet.
+  const routeGain = ctx.zeroRouteWallet
+    ? sol.get(ctx.zeroRouteWallet) ?? 0n
+    : 0n;
+  if (routeGain > 0n && (sol.get(ctx.owner) ?? 0n) < 0n) {
+    return {
+      ...row,
+      type: "zero-percent",
+      solLamports: routeGain,
+      counterparty: ctx.zeroRouteWallet ?? null,
+      aksolAmount: own > 0n ? own : null,
+    };
+  }
+
+  if (own < 0n) {
+    // Config destinations may be wallets or their token accounts.
+    let tax = 0n;
+    const taxOwners = new Set<string>();
+    for (const [address, { owner, delta }] of accounts) {
+      if (delta <= 0n) continue;
+      if (taxWallets.has(address) || taxWallets.has(owner)) {
+        tax += delta;
+        taxOwners.add(owner);
+      }
+    }
+    return {
+      ...row,
+      type: tax > 0n ? "taxed-send" : "outgoing",
+      aksolAmount: -own,
+      taxPaid: tax > 0n ? tax : null,
+      counterparty: largest(deltas, 1n, new Set([ctx.owner, ...taxOwners])),
+    };
+  }
+
+  if (own > 0n) {
+    const from = largest(deltas, -1n, new Set([ctx.owner]));
+    return {
+      ...row,
+      type:
+        from != null && from === ctx.storefrontWallet
+          ? "storefront"
+          : "incoming",
+      aksolAmount: own,
+      counterparty: from,
+    };
+  }
+
+  return row;
+}
+
+// Newest first, by slot and then block time.
+function byRecency(a: ConfirmedSignatureInfo, b: ConfirmedSignatureInfo) {
+  return b.slot - a.slot || (b.blockTime ?? 0) - (a.blockTime ?? 0);
+}
+
+// One page across the wallet and its AKSOL token accounts. Each address is
+// asked for a page from its own cursor; the newest HISTORY_PAGE_SIZE of the
+// merged, de-duplicated signatures are returned and each cursor moves past
+// the ones it contributed, so nothing is skipped or repeated.
+export async function fetchHistoryPage(
+  connection: Connection,
+  ctx: HistoryContext,
+  before: HistoryCursor = {}
+): Promise<HistoryPage> {
+  const tokenAccounts = ctx.mint
+    ? (
+        await fetchMintHolding(connection, new PublicKey(ctx.owner), ctx.mint)
+      ).accounts.map((a) => a.address)
+    : [];
+  const addresses = [
+    ...new Set([ctx.owner, ...tokenAccounts, ...Object.keys(before)]),
+  ].filter((address) => before[address] !== null);
+
+  const lists = await Promise.all(
+    addresses.map((address) =>
+      connection.getSignaturesForAddress(
+        new PublicKey(address),
+        { before: before[address] ?? undefined, limit: HISTORY_PAGE_SIZE },
+        "confirmed"
+      )
+    )
+  );
+  const merged = new Map<string, ConfirmedSignatureInfo>();
+  for (const info of lists.flat()) merged.set(info.signature, info);
+  const signatures = [...merged.values()]
+    .sort(byRecency)
+    .slice(0, HISTORY_PAGE_SIZE);
+  const taken = new Set(signatures.map((s) => s.signature));
+
+  const next: HistoryCursor = { ...before };
+  let more = false;
+  addresses.forEach((address, i) => {
+    const list = lists[i];
+    const used = list.filter((s) => taken.has(s.signature));
+    if (used.length === list.length && list.length < HISTORY_PAGE_SIZE) {
+      next[address] = null;
+      return;
+    }
+    more = true;
+    if (used.length > 0) next[address] = used[used.length - 1].signature;
+  });
+  if (signatures.length === 0) return { rows: [], before: null };
+
+  const txs = await connection.getParsedTransactions(
+    signatures.map((s) => s.signature),
+    { maxSupportedTransactionVersion: 0, commitment: "confirmed" }
+  );
+  const rows = signatures.map((s, i) =>
+    classifyTransaction(s.signature, s.blockTime ?? null, txs[i], ctx)
+  );
+  return { rows, before: more ? next : null };
+}
+
+function csvField(value: string): string {
+  // Spreadsheet apps run cells starting with these as formulas.
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function historyToCsv(rows: HistoryRow[]): string {
+  const header = [
+    "date",
+    "signature",
+    "type",
+    "status",
+    "aksol_amount",
+    "sol_amount",
+    "tax_paid_aksol",
+    "counterparty",
+  ];
+  const lines = rows.map((row) => {
+    const aksol = (amount: bigint | null) =>
+      amount != null && row.decimals != null
+        ? formatTokenAmount(amount, row.decimals).replace(/,/g, "")
+        : "";
+    return [
+      row.blockTime != null ? new Date(row.blockTime * 1000).toISOString() : "",
+      row.signature,
+      HISTORY_TYPE_LABELS[row.type],
+      row.status,
+      aksol(row.aksolAmount),
+      row.solLamports != null
+        ? formatTokenAmount(row.solLamports, 9).replace(/,/g, "")
+        : "",
+      aksol(row.taxPaid),
+      row.counterparty ?? "",
+    ]
+      .map(csvField)
+      .join(",");
+  });
+  return [header.join(","), ...lines].join("\n");
+}
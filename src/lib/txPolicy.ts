@@ -0,0 +1,527 @@
+// src/lib/txPolicy.ts
+//
+// Checks a decoded backend-built transaction against what the user asked
+// for in the form. Violations block signing; warnings are shown in the
+// review panel next to the simulated balance changes.
+import { LAMPORTS_PER_SOL } from "@solana/web3.js";
+import { describeInstruction, type DecodedInstruction } from "./txDecode";
+import { formatTokenAmount, shortAddress } from "./format";
+import { transferFeeFor, type TransferFee } from "./tokens";
+import { computeTaxBreakdown, type TaxDestination } from "./aksolConfig";
+import type { TxPreview } from "./txPreview";
+
+export type TransferIntent =
+  | {
+      kind: "taxed-token-send";
+      owner: string;
+      recipient: string;
+      mint: string;
+      // Gross amount in raw token units, before tax.
+      amount: bigint;
+      decimals: number;
+      taxBps: number;
+      // Associated token accounts the transfers must use.
+      sourceAccount: string;
+      recipientAccount: string;
+      // Tax destinations from the on-chain config, each with the accounts
+      // it may be paid to (its wallet or that wallet's token account). Null
+      // when the config could not be read; the send is then refused.
+      taxDestinations:
+        | { destination: TaxDestination; accounts: string[] }[]
+        | null;
+      // Token-2022 transfer fee in force on the mint. It is withheld from
+      // what each destination receives, on top of the AKSOL tax.
+      transferFee?: TransferFee | null;
+    }
+  | {
+      kind: "zero-percent";
+      owner: string;
+      lamports: bigint;
+      // The network's 0% route wallet, the only place the SOL may go. Null
+      // when none is configured; the purchase is then refused.
+      destination: string | null;
+    }
+  | {
+      // Reclaiming rent from the user's own empty token accounts.
+      kind: "close-token-accounts";
+      owner: string;
+      accounts: string[];
+    };
+
+export interface PolicyResult {
+  violations: string[];
+  warnings: string[];
+}
+
+export class PolicyViolationError extends Error {
+  readonly violations: string[];
+
+  constructor(violations: string[]) {
+    super(
+      `Refused to sign: the transaction does not match your request. ${violations.join(
+        " "
+      )}`
+    );
+    this.name = "PolicyViolationError";
+    this.violations = violations;
+  }
+}
+
+// Anything above this in priority fees is treated as a drain attempt.
+export const MAX_PRIORITY_FEE_LAMPORTS = 0.01 * LAMPORTS_PER_SOL;
+// Runtime defaults when no SetComputeUnitLimit is present.
+const DEFAULT_UNITS_PER_INSTRUCTION = 200_000;
+const MAX_COMPUTE_UNITS = 1_400_000;
+
+function formatLamports(lamports: bigint): string {
+  const sol = (Number(lamports) / LAMPORTS_PER_SOL)
+    .toFixed(9)
+    .replace(/\.?0+$/, "");
+  return `${sol} SOL`;
+}
+
+function formatAksol(amount: bigint, decimals: number): string {
+  return `${formatTokenAmount(amount, decimals)} AKSOL`;
+}
+
+// Priority fee the transaction's compute-budget instructions will charge.
+export function priorityFeeLamports(instructions: DecodedInstruction[]): bigint {
+  let price = 0n;
+  let limit: number | null = null;
+  let others = 0;
+  for (const ix of instructions) {
+    if (ix.kind === "compute-unit-price") price = ix.microLamports;
+    else if (ix.kind === "compute-unit-limit") limit = ix.units;
+    else others += 1;
+  }
+  const units = BigInt(
+    limit ?? Math.min(others * DEFAULT_UNITS_PER_INSTRUCTION, MAX_COMPUTE_UNITS)
+  );
+  return (price * units + 999_999n) / 1_000_000n;
+}
+
+// AKSOL leaving the sender's token account and what each destination
+// account is credited with.
+interface TokenFlow {
+  sent: bigint;
+  credited: Map<string, bigint>;
+  // Credits come from simulated balances, so the Token-2022 transfer fee is
+  // already taken out of them.
+  afterFee: boolean;
+  // Splitting the tax across accounts can lose a raw unit per transfer.
+  tolerance: bigint;
+}
+
+type TokenSendIntent = Extract<TransferIntent, { kind: "taxed-token-send" }>;
+
+// The AKSOL program moves funds itself; amounts then only show up in the
+// simulation, not in the instruction data.
+function simulatedTokenFlow(
+  intent: TokenSendIntent,
+  preview: TxPreview | null,
+  { violations }: PolicyResult
+): TokenFlow | null {
+  if (!preview || preview.error) {
+    violations.push(
+      "The AKSOL program computes the amounts itself, and the transaction could not be simulated to check them."
+    );
+    return null;
+  }
+  let sent = 0n;
+  const credited = new Map<string, bigint>();
+  for (const { address, token } of preview.accounts) {
+    if (!token || token.delta === 0n) continue;
+    if (address === intent.sourceAccount && token.mint === intent.mint) {
+      sent -= token.delta;
+    } else if (token.owner === intent.owner && token.delta < 0n) {
+      violations.push(
+        `Simulation shows tokens leaving ${shortAddress(
+          address
+        )}, which is not your AKSOL account.`
+      );
+    } else if (token.mint === intent.mint && token.delta > 0n) {
+      credited.set(address, token.delta);
+    }
+  }
+  return {
+    sent,
+    credited,
+    afterFee: true,
+    tolerance: BigInt(Math.max(credited.size, 1)),
+  };
+}
+
+// Amount, tax and destination checks for an AKSOL token send.
+function checkTokenSend(
+  intent: TokenSendIntent,
+  { sent, credited, afterFee, tolerance }: TokenFlow,
+  { violations, warnings }: PolicyResult
+): void {
+  const fmt = (amount: bigint) => formatAksol(amount, intent.decimals);
+  const near = (a: bigint, b: bigint) =>
+    (a > b ? a - b : b - a) <= tolerance;
+  const fee =
+    intent.transferFee && intent.transferFee.basisPoints > 0
+      ? intent.transferFee
+      : null;
+  // What a destination is credited for a transfer of `amount`.
+  const credit = (amount: bigint) =>
+    afterFee && fee ? amount - transferFeeFor(fee, amount) : amount;
+
+  if (!near(sent, intent.amount)) {
+    violations.push(
+      `Sends ${fmt(sent)} from your wallet instead of the ${fmt(
+        intent.amount
+      )} you entered.`
+    );
+  }
+
+  const { tax, net, shares } = computeTaxBreakdown(
+    intent.amount,
+    intent.taxBps,
+    intent.taxDestinations?.map((d) => d.destination) ?? []
+  );
+  const toRecipient = credited.get(intent.recipientAccount) ?? 0n;
+  let taxPaid = 0n;
+  for (const [account, amount] of credited) {
+    if (account !== intent.recipientAccount) taxPaid += amount;
+  }
+  const expectedTax =
+    shares.length > 0
+      ? shares.reduce((sum, s) => sum + credit(s.amount), 0n)
+      : credit(tax);
+
+  if (toRecipient === 0n) {
+    violations.push(
+      `Nothing is sent to the AKSOL account of ${shortAddress(
+        intent.recipient
+      )}.`
+    );
+    return;
+  }
+  if (!near(toRecipient, credit(net))) {
+    violations.push(
+      `Recipient receives ${fmt(toRecipient)}, expected ${fmt(
+        credit(net)
+      )} after ${intent.taxBps / 100}% tax.`
+    );
+  }
+  if (!near(taxPaid, expectedTax)) {
+    violations.push(
+      `Tax of ${fmt(taxPaid)} does not match the configured ${
+        intent.taxBps / 100
+      }% (${fmt(expectedTax)}).`
+    );
+  }
+  if (fee) {
+    const withheld = transferFeeFor(fee, net);
+    warnings.push(
+      `AKSOL charges a ${fee.basisPoints / 100}% token transfer fee: ${fmt(
+        withheld
+      )} is withheld from the recipient's share, so they receive ${fmt(
+        net - withheld
+      )}.`
+    );
+  }
+
+  const destinations = intent.taxDestinations;
+  if (!destinations) {
+    violations.push(
+      "The AKSOL config could not be read, so where the tax goes cannot be checked."
+    );
+    return;
+  }
+  for (const account of credited.keys()) {
+    if (
+      account !== intent.recipientAccount &&
+      !destinations.some((d) => d.accounts.includes(account))
+    ) {
+      violations.push(
+        `Tax goes to ${shortAddress(
+          account
+        )}, which is not one of the config's tax accounts.`
+      );
+    }
+  }
+  shares.forEach((share, i) => {
+    const received = destinations[i].accounts.reduce(
+      (sum, account) => sum + (credited.get(account) ?? 0n),
+      0n
+    );
+    if (!near(received, credit(share.amount))) {
+      violations.push(
+        `${share.destination.label} receives ${fmt(received)} of the tax, expected ${fmt(
+          credit(share.amount)
+        )}.`
+      );
+    }
+  });
+}
+
+// `preview` is the simulation of the same transaction(s), when available.
+// Token sends routed through the AKSOL program are checked against it.
+type PurchaseIntent = Extract<TransferIntent, { kind: "zero-percent" }>;
+
+// Amount and destination checks for a 0% route purchase. `outgoing` holds
+// the SOL each wallet receives from the buyer.
+function checkPurchase(
+  intent: PurchaseIntent,
+  outgoing: Map<string, bigint>,
+  tolerance: bigint,
+  { violations }: PolicyResult
+): void {
+  const totalOut = [...outgoing.values()].reduce((sum, v) => sum + v, 0n);
+  const near = (a: bigint, b: bigint) =>
+    (a > b ? a - b : b - a) <= tolerance;
+
+  if (totalOut > intent.lamports + tolerance) {
+    violations.push(
+      `Sends ${formatLamports(totalOut)} from your wallet, more than the ${formatLamports(
+        intent.lamports
+      )} you entered.`
+    );
+  } else if (!near(totalOut, intent.lamports)) {
+    violations.push(
+      `Sends ${formatLamports(totalOut)} from your wallet instead of the ${formatLamports(
+        intent.lamports
+      )} you entered.`
+    );
+  }
+
+  if (!intent.destination) {
+    violations.push(
+      "No 0% route wallet is configured for this network, so where the SOL goes cannot be checked."
+    );
+    return;
+  }
+  for (const [wallet, lamports] of outgoing) {
+    if (wallet !== intent.destination) {
+      violations.push(
+        `Sends ${formatLamports(lamports)} to ${shortAddress(
+          wallet
+        )}, which is not the 0% route wallet.`
+      );
+    }
+  }
+}
+
+// The simulated counterpart of the instruction checks for a purchase the
+// AKSOL program carries out. Rent for the buyer's own token accounts (where
+// the AKSOL is delivered) is not counted as payment.
+function checkSimulatedPurchase(
+  intent: PurchaseIntent,
+  preview: TxPreview | null,
+  result: PolicyResult
+): void {
+  if (!preview || preview.error) {
+    result.violations.push(
+      "The AKSOL program computes the amounts itself, and the transaction could not be simulated to check them."
+    );
+    return;
+  }
+  const credited = new Map<string, bigint>();
+  for (const { address, lamportsDelta, token } of preview.accounts) {
+    if (lamportsDelta <= 0 || address === intent.owner) continue;
+    if (token?.owner === intent.owner) continue;
+    credited.set(address, BigInt(lamportsDelta));
+  }
+  checkPurchase(intent, credited, 1n, result);
+}
+
+export function checkTransactionPolicy(
+  instructions: DecodedInstruction[],
+  intent: TransferIntent,
+  feePayer: string,
+  preview: TxPreview | null
+): PolicyResult {
+  const violations: string[] = [];
+  const warnings: string[] = [];
+  const { owner } = intent;
+
+  if (instructions.length === 0) {
+    violations.push("The transaction contains no instructions.");
+  }
+
+  if (feePayer !== owner) {
+    warnings.push(
+      `Network fee is paid by ${shortAddress(feePayer)}, not your wallet.`
+    );
+  }
+
+  // SOL (or, for token sends, AKSOL) leaving the user's wallet, split by
+  // destination account.
+  const outgoing = new Map<string, bigint>();
+  let transfersFromOwner = 0;
+  let hasProgramCall = false;
+  const closedAccounts = new Set<string>();
+  const tokenSend = intent.kind === "taxed-token-send" ? intent : null;
+
+  instructions.forEach((ix, i) => {
+    const n = i + 1;
+    switch (ix.kind) {
+      case "unknown":
+        violations.push(`Instruction ${n}: ${ix.reason}.`);
+        break;
+      case "system-transfer":
+        if (ix.from === owner && tokenSend) {
+          violations.push(
+            `Instruction ${n} moves SOL out of your wallet, but you asked to send AKSOL.`
+          );
+        } else if (ix.from === owner) {
+          transfersFromOwner += 1;
+          outgoing.set(ix.to, (outgoing.get(ix.to) ?? 0n) + ix.lamports);
+        } else {
+          warnings.push(`Instruction ${n}: ${describeInstruction(ix)}.`);
+        }
+        break;
+      case "token-transfer":
+        if (ix.authority !== owner) {
+          warnings.push(`Instruction ${n}: ${describeInstruction(ix)}.`);
+        } else if (!tokenSend) {
+          violations.push(
+            intent.kind === "close-token-accounts"
+              ? `Instruction ${n} moves SPL tokens out of your wallet.`
+              : `Instruction ${n} moves SPL tokens out of your wallet, but you asked to send SOL.`
+          );
+        } else if (
+          ix.source !== tokenSend.sourceAccount ||
+          (ix.mint != null && ix.mint !== tokenSend.mint)
+        ) {
+          violations.push(
+            `Instruction ${n} moves tokens other than AKSOL out of your wallet.`
+          );
+        } else if (ix.decimals != null && ix.decimals !== tokenSend.decimals) {
+          violations.push(
+            `Instruction ${n} uses ${ix.decimals} decimals; the AKSOL mint has ${tokenSend.decimals}.`
+          );
+        } else if (
+          ix.fee != null &&
+          ix.fee !==
+            (tokenSend.transferFee
+              ? transferFeeFor(tokenSend.transferFee, ix.amount)
+              : 0n)
+        ) {
+          violations.push(
+            `Instruction ${n} declares a ${formatAksol(
+              ix.fee,
+              tokenSend.decimals
+            )} transfer fee, which is not what the AKSOL mint charges.`
+          );
+        } else {
+          transfersFromOwner += 1;
+          outgoing.set(
+            ix.destination,
+            (outgoing.get(ix.destination) ?? 0n) + ix.amount
+          );
+        }
+        break;
+      case "token-close":
+        if (
+          intent.kind === "close-token-accounts" &&
+          intent.accounts.includes(ix.account) &&
+          ix.authority === owner &&
+          ix.destination === owner
+        ) {
+          closedAccounts.add(ix.account);
+        } else if (intent.kind === "close-token-accounts") {
+          violations.push(
+            `Instruction ${n} closes ${shortAddress(
+              ix.account
+            )}, which is not one of the accounts you chose, or sends its rent elsewhere.`
+          );
+        } else {
+          violations.push(
+            `Instruction ${n} closes token account ${shortAddress(ix.account)}.`
+          );
+        }
+        break;
+      case "ata-create":
+        if (
+          tokenSend &&
+          ix.payer === owner &&
+          ix.account === tokenSend.recipientAccount
+        ) {
+          warnings.push(
+            "Creates the recipient's AKSOL token account; your wallet pays its rent."
+          );
+        } else if (ix.payer === owner) {
+          warnings.push(
+            `Instruction ${n} creates a token account for ${shortAddress(
+              ix.owner
+            )}; your wallet pays its rent.`
+          );
+        }
+        break;
+      case "aksol":
+        hasProgramCall = true;
+        break;
+      default:
+        break;
+    }
+  });
+
+  const priorityFee = priorityFeeLamports(instructions);
+  if (priorityFee > BigInt(MAX_PRIORITY_FEE_LAMPORTS)) {
+    violations.push(
+      `Priority fee of ${formatLamports(priorityFee)} is far above normal.`
+    );
+  }
+
+  // Whatever the AKSOL program moves is only visible in the simulation;
+  // direct transfers are checked from their instruction data as well.
+  if (intent.kind === "taxed-token-send") {
+    const result = { violations, warnings };
+    if (hasProgramCall) {
+      const flow = simulatedTokenFlow(intent, preview, result);
+      if (flow) checkTokenSend(intent, flow, result);
+    }
+    if (!hasProgramCall || transfersFromOwner > 0) {
+      checkTokenSend(
+        intent,
+        {
+          sent: [...outgoing.values()].reduce((sum, v) => sum + v, 0n),
+          credited: outgoing,
+          afterFee: false,
+          tolerance: BigInt(Math.max(transfersFromOwner, 1)),
+        },
+        result
+      );
+    }
+    // Both passes may report the same finding.
+    return {
+      violations: [...new Set(violations)],
+      warnings: [...new Set(warnings)],
+    };
+  }
+
+  if (intent.kind === "close-token-accounts") {
+    if (outgoing.size > 0) {
+      violations.push("Moves SOL out of your wallet while closing accounts.");
+    }
+    if (hasProgramCall) {
+      violations.push("Calls the AKSOL program while closing accounts.");
+    }
+    if (closedAccounts.size < intent.accounts.length) {
+      warnings.push(
+        `Closes ${closedAccounts.size} of the ${intent.accounts.length} accounts you chose.`
+      );
+    }
+    return { violations, warnings };
+  }
+
+  // As for token sends: the simulation whenever the program is called, the
+  // instruction data whenever SOL is transferred directly.
+  const result = { violations, warnings };
+  if (hasProgramCall) {
+    checkSimulatedPurchase(intent, preview, result);
+  }
+  if (!hasProgramCall || transfersFromOwner > 0) {
+    checkPurchase(
+      intent,
+      outgoing,
+      BigInt(Math.max(transfersFromOwner, 1)),
+      result
+    );
+  }
+  return result;
+}
@@ -0,0 +1,238 @@
+// src/lib/txPreview.ts
+//
+// Pre-sign review: simulate a backend-built transaction with account
+// snapshots and turn the before/after state into per-account SOL and token
+// deltas the user can read before their wallet signs anything.
+import {
+  Connection,
+  PublicKey,
+  Transaction,
+  VersionedTransaction,
+  type AddressLookupTableAccount,
+  type MessageAccountKeys,
+} from "@solana/web3.js";
+import { base64ToUint8Array, type AnyTransaction } from "./solanaTx";
+import { isTokenProgram } from "./programs";
+
+export interface TokenDelta {
+  mint: string;
+  // Wallet that owns the token account.
+  owner: string;
+  delta: bigint; // raw units
+  decimals: number | null;
+}
+
+export interface AccountDelta {
+  address: string;
+  label: string | null;
+  lamportsDelta: number;
+  token: TokenDelta | null;
+}
+
+export interface TxPreview {
+  accounts: AccountDelta[];
+  feeLamports: number | null;
+  unitsConsumed: number | null;
+  logs: string[];
+  // Simulation error (the transaction would fail if signed).
+  error: string | null;
+}
+
+// Token account layout (SPL Token and Token-2022 share the first 165 bytes).
+const TOKEN_ACCOUNT_MIN_LEN = 165;
+// Mint layout: decimals is a single byte at offset 44.
+const MINT_DECIMALS_OFFSET = 44;
+
+interface TokenAccountState {
+  mint: string;
+  owner: string;
+  amount: bigint;
+}
+
+function readTokenAccount(
+  owner: string,
+  data: Uint8Array
+): TokenAccountState | null {
+  if (!isTokenProgram(owner) || data.length < TOKEN_ACCOUNT_MIN_LEN) {
+    return null;
+  }
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  return {
+    mint: new PublicKey(data.slice(0, 32)).toBase58(),
+    owner: new PublicKey(data.slice(32, 64)).toBase58(),
+    amount: view.getBigUint64(64, true),
+  };
+}
+
+export function toVersioned(tx: AnyTransaction): VersionedTransaction {
+  return tx instanceof Transaction
+    ? new VersionedTransaction(tx.compileMessage())
+    : tx;
+}
+
+// Fetches the address lookup tables a v0 transaction references.
+export async function fetchLookupTables(
+  connection: Connection,
+  tx: VersionedTransaction
+): Promise<AddressLookupTableAccount[]> {
+  const lookups = tx.message.addressTableLookups;
+  if (lookups.length === 0) return [];
+
+  const tables = await Promise.all(
+    lookups.map((l) => connection.getAddressLookupTable(l.accountKey))
+  );
+  return tables.map((t, i) => {
+    if (!t.value) {
+      throw new Error(
+        `Address lookup table ${lookups[i].accountKey.toBase58()} not found`
+      );
+    }
+    return t.value;
+  });
+}
+
+// Resolves static keys plus any v0 address-lookup-table entries.
+export async function resolveAccountKeys(
+  connection: Connection,
+  tx: VersionedTransaction
+): Promise<MessageAccountKeys> {
+  const addressLookupTableAccounts = await fetchLookupTables(connection, tx);
+  return tx.message.getAccountKeys({ addressLookupTableAccounts });
+}
+
+async function fetchDecimals(
+  connection: Connection,
+  mints: string[]
+): Promise<Map<string, number>> {
+  const decimals = new Map<string, number>();
+  if (mints.length === 0) return decimals;
+  const infos = await connection.getMultipleAccountsInfo(
+    mints.map((m) => new PublicKey(m))
+  );
+  infos.forEach((info, i) => {
+    if (info && info.data.length > MINT_DECIMALS_OFFSET) {
+      decimals.set(mints[i], info.data[MINT_DECIMALS_OFFSET]);
+    }
+  });
+  return decimals;
+}
+
+export async function previewTransaction(
+  connection: Connection,
+  tx: AnyTransaction,
+  labels: Record<string, string> = {}
+): Promise<TxPreview> {
+  const versioned = toVersioned(tx);
+  const keys = await resolveAccountKeys(connection, versioned);
+
+  // Only writable accounts can change during execution.
+  const writable: PublicKey[] = [];
+  for (let i = 0; i < keys.length; i++) {
+    if (versioned.message.isAccountWritable(i)) {
+      writable.push(keys.get(i)!);
+    }
+  }
+  const addresses = writable.map((k) => k.toBase58());
+
+  const [before, simulation, fee] = await Promise.all([
+    connection.getMultipleAccountsInfo(writable),
+    connection.simulateTransaction(versioned, {
+      sigVerify: false,
+      replaceRecentBlockhash: true,
+      accounts: { encoding: "base64", addresses },
+    }),
+    connection.getFeeForMessage(versioned.message).catch(() => null),
+  ]);
+
+  const sim = simulation.value;
+  const after = sim.accounts ?? [];
+
+  const accounts: AccountDelta[] = [];
+  for (let i = 0; i < addresses.length; i++) {
+    const pre = before[i];
+    const post = after[i];
+
+    const preLamports = pre?.lamports ?? 0;
+    const postLamports = post?.lamports ?? preLamports;
+
+    const preToken = pre
+      ? readTokenAccount(pre.owner.toBase58(), new Uint8Array(pre.data))
+      : null;
+    const postToken = post
+      ? readTokenAccount(post.owner, base64ToUint8Array(post.data[0]))
+      : null;
+
+    const tokenState = postToken ?? preToken;
+    const token: TokenDelta | null = tokenState
+      ? {
+          mint: tokenState.mint,
+          owner: tokenState.owner,
+          delta: (postToken?.amount ?? 0n) - (preToken?.amount ?? 0n),
+          decimals: null,
+        }
+      : null;
+
+    const lamportsDelta = postLamports - preLamports;
+    if (lamportsDelta === 0 && (!token || token.delta === 0n)) continue;
+
+    accounts.push({
+      address: addresses[i],
+      label: labels[addresses[i]] ?? (token ? labels[token.owner] : null) ?? null,
+      lamportsDelta,
+      token,
+    });
+  }
+
+  const mints = [
+    ...new Set(accounts.flatMap((a) => (a.token ? [a.token.mint] : []))),
+  ];
+  const decimals = await fetchDecimals(connection, mints).catch(
+    () => new Map<string, number>()
+  );
+  for (const a of accounts) {
+    if (a.token) a.token.decimals = decimals.get(a.token.mint) ?? null;
+  }
+
+  return {
+    accounts,
+    feeLamports: fee?.value ?? null,
+    unitsConsumed: sim.unitsConsumed ?? null,
+    logs: sim.logs ?? [],
+    error: sim.err ? JSON.stringify(sim.err) : null,
+  };
+}
+
+// Combines the previews of a multi-transaction batch into one review. Each
+// transaction is simulated against current state on its own, so later steps
+// do not see the earlier ones' effects.
+export function mergePreviews(previews: TxPreview[]): TxPreview {
+  const byAddress = new Map<string, AccountDelta>();
+  for (const preview of previews) {
+    for (const a of preview.accounts) {
+      const seen = byAddress.get(a.address);
+      if (!seen) {
+        byAddress.set(a.address, {
+          ...a,
+          token: a.token ? { ...a.token } : null,
+        });
+        continue;
+      }
+      seen.lamportsDelta += a.lamportsDelta;
+      if (seen.token && a.token) seen.token.delta += a.token.delta;
+      else seen.token ??= a.token ? { ...a.token } : null;
+    }
+  }
+
+  const sum = (values: (number | null)[]) =>
+    values.some((v) => v == null)
+      ? null
+      : values.reduce<number>((acc, v) => acc + (v ?? 0), 0);
+
+  return {
+    accounts: [...byAddress.values()],
+    feeLamports: sum(previews.map((p) => p.feeLamports)),
+    unitsConsumed: sum(previews.map((p) => p.unitsConsumed)),
+    logs: previews.flatMap((p) => p.logs),
+    error: previews.find((p) => p.error)?.error ?? null,
+  };
+}
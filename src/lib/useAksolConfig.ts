@@ -0,0 +1,96 @@
+// src/lib/useAksolConfig.ts
+import { useEffect, useState } from "react";
+import { useConnection } from "@solana/wallet-adapter-react";
+import type { AccountInfo } from "@solana/web3.js";
+import { useNetwork } from "../networkContext";
+import { decodeAksolConfig, type AksolConfigAccount } from "./aksolConfig";
+import { describeError } from "./errors";
+import { parseAddress } from "./programs";
+
+export type AksolConfigState =
+  | { status: "unconfigured" }
+  | { status: "loading" }
+  | { status: "ready"; config: AksolConfigAccount }
+  | { status: "error"; error: string };
+
+// Live view of the active network's config account: fetched once, then kept
+// current through an account subscription so tax changes show up without a
+// reload.
+export function useAksolConfig(): AksolConfigState {
+  const { connection } = useConnection();
+  const { networkConfig } = useNetwork();
+  const { configPda, programId, label } = networkConfig;
+  // Results are tagged with the address they belong to, so switching
+  // networks reads as "loading" until the new account arrives.
+  const [loaded, setLoaded] = useState<{
+    key: string;
+    state: AksolConfigState;
+  } | null>(null);
+
+  const address = parseAddress(configPda);
+  const key = `${connection.rpcEndpoint}|${configPda ?? ""}`;
+
+  useEffect(() => {
+    const address = parseAddress(configPda);
+    if (!address) return;
+
+    let cancelled = false;
+    const publish = (state: AksolConfigState) => {
+      if (!cancelled) setLoaded({ key, state });
+    };
+    const apply = (info: AccountInfo<Buffer> | null) => {
+      if (!info) {
+        publish({
+          status: "error",
+          error: `Config account not found on ${label}.`,
+        });
+        return;
+      }
+      if (programId && info.owner.toBase58() !== programId) {
+        publish({
+          status: "error",
+          error: "Config account is not owned by the AKSOL program.",
+        });
+        return;
+      }
+      try {
+        publish({
+          status: "ready",
+          config: decodeAksolConfig(new Uint8Array(info.data)),
+        });
+      } catch (err) {
+        publish({
+          status: "error",
+          error: describeError(err, "Could not decode the config account."),
+        });
+      }
+    };
+
+    connection
+      .getAccountInfo(address, "confirmed")
+      .then(apply)
+      .catch((err) =>
+        publish({
+          status: "error",
+          error: describeError(err, "Could not load the config account."),
+        })
+      );
+    const subscription = connection.onAccountChange(address, apply, {
+      commitment: "confirmed",
+    });
+
+    return () => {
+      cancelled = true;
+      void connection.removeAccountChangeListener(subscription);
+    };
+  }, [connection, configPda, key, programId, label]);
+
+  if (!configPda) return { status: "unconfigured" };
+  if (!address) {
+    return {
+      status: "error",
+      error: `Config address ${configPda} is not a valid public key.`,
+    };
+  }
+  return loaded?.key === key ? loaded.state : { status: "loading" };
+}
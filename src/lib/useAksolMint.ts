@@ -0,0 +1,86 @@
+// src/lib/useAksolMint.ts
+import { useEffect, useState } from "react";
+import { useConnection } from "@solana/wallet-adapter-react";
+import { useNetwork } from "../networkContext";
+import {
+  activeTransferFee,
+  decodeMint,
+  type MintInfo,
+  type TransferFee,
+} from "./tokens";
+import { describeError } from "./errors";
+import { parseAddress } from "./programs";
+
+export type AksolMintState =
+  | { status: "unconfigured" }
+  | { status: "loading" }
+  | {
+      status: "ready";
+      mint: MintInfo;
+      // Token-2022 transfer fee in force this epoch, if the mint has one.
+      transferFee: TransferFee | null;
+    }
+  | { status: "error"; error: string };
+
+// The active network's AKSOL mint (decimals, token program, extensions).
+// Mints do not change shape, so it is read once per network rather than
+// subscribed to.
+export function useAksolMint(): AksolMintState {
+  const { connection } = useConnection();
+  const { networkConfig } = useNetwork();
+  const { mint, label } = networkConfig;
+  const [loaded, setLoaded] = useState<{
+    key: string;
+    state: AksolMintState;
+  } | null>(null);
+
+  const address = parseAddress(mint);
+  const key = `${connection.rpcEndpoint}|${mint ?? ""}`;
+
+  useEffect(() => {
+    const address = parseAddress(mint);
+    if (!address) return;
+
+    let cancelled = false;
+    const publish = (state: AksolMintState) => {
+      if (!cancelled) setLoaded({ key, state });
+    };
+    const load = async (): Promise<AksolMintState> => {
+      const info = await connection.getAccountInfo(address, "confirmed");
+      if (!info) {
+        return { status: "error", error: `AKSOL mint not found on ${label}.` };
+      }
+      const mint = decodeMint(address.toBase58(), info);
+      const feeConfig = mint.extensions.transferFee;
+      if (!feeConfig) return { status: "ready", mint, transferFee: null };
+      // The fee schedule can change at an epoch boundary.
+      const { epoch } = await connection.getEpochInfo("confirmed");
+      return {
+        status: "ready",
+        mint,
+        transferFee: activeTransferFee(feeConfig, BigInt(epoch)),
+      };
+    };
+    load()
+      .then(publish)
+      .catch((err) =>
+        publish({
+          status: "error",
+          error: describeError(err, "Could not load the AKSOL mint."),
+        })
+      );
+
+    return () => {
+      cancelled = true;
+    };
+  }, [connection, mint, key, label]);
+
+  if (!mint) return { status: "unconfigured" };
+  if (!address) {
+    return {
+      status: "error",
+      error: `Mint address ${mint} is not a valid public key.`,
+    };
+  }
+  return loaded?.key === key ? loaded.state : { status: "loading" };
+}
@@ -0,0 +1,102 @@
+// src/lib/useLiveRefresh.ts
+//
+// Refresh signal for views that show on-chain state. Subscribes to changes
+// of the given accounts and to logs mentioning `logsAddress`, and bumps
+// `version` whenever one fires. web3.js reconnects the websocket and
+// resubscribes by itself; a slot subscription serves as the heartbeat that
+// tells us whether it is currently up. While it is quiet the hook polls
+// instead, and when it returns one more refresh picks up whatever landed in
+// between.
+import { useEffect, useState } from "react";
+import { useConnection } from "@solana/wallet-adapter-react";
+import { PublicKey } from "@solana/web3.js";
+
+export type LiveMode = "idle" | "connecting" | "live" | "polling";
+
+// Slots arrive every ~400 ms; this long without one means the socket is down.
+const HEARTBEAT_TIMEOUT_MS = 10_000;
+export const LIVE_POLL_INTERVAL_MS = 15_000;
+const CHECK_INTERVAL_MS = 5_000;
+// A transaction fires several notifications (each account, then its logs);
+// they are folded into one refresh.
+const COALESCE_MS = 500;
+
+export function useLiveRefresh(
+  accounts: string[],
+  logsAddress: string | null
+): { version: number; mode: LiveMode } {
+  const { connection } = useConnection();
+  const [version, setVersion] = useState(0);
+  const [status, setStatus] = useState<{ key: string; mode: LiveMode } | null>(
+    null
+  );
+
+  const accountsKey = accounts.join(",");
+  const key = `${connection.rpcEndpoint}|${accountsKey}|${logsAddress ?? ""}`;
+  const enabled = accountsKey !== "" || logsAddress != null;
+
+  useEffect(() => {
+    if (!accountsKey && !logsAddress) return;
+
+    let cancelled = false;
+    let mode: LiveMode = "connecting";
+    let lastBeat = 0;
+    let lastPoll = Date.now();
+    let pending: number | null = null;
+
+    const setMode = (next: LiveMode) => {
+      if (mode === next) return;
+      mode = next;
+      if (!cancelled) setStatus({ key, mode: next });
+    };
+    const refresh = () => {
+      if (pending != null) return;
+      pending = window.setTimeout(() => {
+        pending = null;
+        if (!cancelled) setVersion((v) => v + 1);
+      }, COALESCE_MS);
+    };
+
+    const accountSubs = (accountsKey ? accountsKey.split(",") : []).map(
+      (address) =>
+        connection.onAccountChange(new PublicKey(address), refresh, {
+          commitment: "confirmed",
+        })
+    );
+    const logsSub = logsAddress
+      ? connection.onLogs(new PublicKey(logsAddress), refresh, "confirmed")
+      : null;
+    const slotSub = connection.onSlotChange(() => {
+      lastBeat = Date.now();
+      // Back from a drop: catch up on what the subscriptions missed.
+      if (mode === "polling") refresh();
+      setMode("live");
+    });
+
+    const timer = window.setInterval(() => {
+      const now = Date.now();
+      if (now - lastBeat > HEARTBEAT_TIMEOUT_MS) setMode("polling");
+      if (mode === "polling" && now - lastPoll >= LIVE_POLL_INTERVAL_MS) {
+        lastPoll = now;
+        refresh();
+      }
+    }, CHECK_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      window.clearInterval(timer);
+      if (pending != null) window.clearTimeout(pending);
+      accountSubs.forEach(
+        (id) => void connection.removeAccountChangeListener(id)
+      );
+      if (logsSub != null) void connection.removeOnLogsListener(logsSub);
+      void connection.removeSlotChangeListener(slotSub);
+    };
+  }, [connection, accountsKey, logsAddress, key]);
+
+  if (!enabled) return { version, mode: "idle" };
+  return {
+    version,
+    mode: status?.key === key ? status.mode : "connecting",
+  };
+}
@@ -0,0 +1,120 @@
+// src/lib/usePendingTxWatcher.ts
+import { useEffect, useRef } from "react";
+import { useConnection } from "@solana/wallet-adapter-react";
+import type { Connection } from "@solana/web3.js";
+import { useNetwork } from "../networkContext";
+import {
+  SESSION_ID,
+  getPendingTransactions,
+  settlePending,
+  usePendingTransactions,
+  type PendingTx,
+  type PendingTxStatus,
+} from "./pendingTx";
+import type { NetworkName } from "../networkConfig";
+
+const POLL_INTERVAL_MS = 3_000;
+
+// Pending on this network and not being confirmed by a live card.
+function isOrphaned(entry: PendingTx, network: NetworkName): boolean {
+  return (
+    entry.status === "pending" &&
+    entry.owner !== SESSION_ID &&
+    entry.network === network
+  );
+}
+
+async function hasExpired(
+  connection: Connection,
+  entry: PendingTx,
+  blockHeight: () => Promise<number>
+): Promise<boolean> {
+  if (entry.lastValidBlockHeight) {
+    return (await blockHeight()) > entry.lastValidBlockHeight;
+  }
+  const { value } = await connection.isBlockhashValid(entry.blockhash, {
+    commitment: "confirmed",
+  });
+  return !value;
+}
+
+async function checkOrphans(
+  connection: Connection,
+  network: NetworkName,
+  onSettled: (entry: PendingTx) => void
+): Promise<void> {
+  const batch = getPendingTransactions().filter((e) => isOrphaned(e, network));
+  if (batch.length === 0) return;
+
+  // History search: after a long reload the status cache may have moved on.
+  const { value } = await connection.getSignatureStatuses(
+    batch.map((e) => e.signature),
+    { searchTransactionHistory: true }
+  );
+
+  let height: Promise<number> | null = null;
+  const blockHeight = () => (height ??= connection.getBlockHeight("confirmed"));
+
+  for (const [i, entry] of batch.entries()) {
+    const status = value[i];
+    let outcome: Exclude<PendingTxStatus, "pending"> | null = null;
+    let error: string | null = null;
+
+    if (status?.err) {
+      outcome = "failed";
+      error = JSON.stringify(status.err);
+    } else if (
+      status?.confirmationStatus === "confirmed" ||
+      status?.confirmationStatus === "finalized"
+    ) {
+      outcome = "confirmed";
+    } else if (await hasExpired(connection, entry, blockHeight)) {
+      outcome = "expired";
+      error = "Blockhash expired before the transaction was confirmed";
+    }
+
+    if (outcome) {
+      settlePending(entry.signature, outcome, error);
+      onSettled({ ...entry, status: outcome, error });
+    }
+  }
+}
+
+// Resumes confirmation of transactions sent before a reload (or by a card
+// that has since unmounted) on the active network, reporting each one as it
+// settles.
+export function usePendingTxWatcher(onSettled: (entry: PendingTx) => void) {
+  const { connection } = useConnection();
+  const { networkName } = useNetwork();
+  const entries = usePendingTransactions();
+  const hasOrphans = entries.some((e) => isOrphaned(e, networkName));
+
+  const onSettledRef = useRef(onSettled);
+  useEffect(() => {
+    onSettledRef.current = onSettled;
+  });
+
+  useEffect(() => {
+    if (!hasOrphans) return;
+    let cancelled = false;
+    let timer: number | undefined;
+
+    const tick = async () => {
+      try {
+        await checkOrphans(connection, networkName, (entry) =>
+          onSettledRef.current(entry)
+        );
+      } catch (err) {
+        // transient RPC error; try again on the next tick
+        console.warn("Pending transaction check failed:", err);
+      }
+      if (!cancelled) timer = window.setTimeout(tick, POLL_INTERVAL_MS);
+    };
+    void tick();
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [connection, networkName, hasOrphans]);
+}
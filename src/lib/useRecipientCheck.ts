@@ -0,0 +1,98 @@
+// src/lib/useRecipientCheck.ts
+import { useEffect, useState } from "react";
+import { useConnection } from "@solana/wallet-adapter-react";
+import { PublicKey } from "@solana/web3.js";
+import {
+  accountRisks,
+  addressRisks,
+  missingTokenAccountRisk,
+  parseRecipient,
+  type RecipientAccountFacts,
+  type RecipientRisk,
+} from "./recipientChecks";
+import type { MintInfo } from "./tokens";
+import {
+  useRecipientTokenAccount,
+  type RecipientTokenAccount,
+} from "./useRecipientTokenAccount";
+
+export interface RecipientCheck {
+  // Set when the address cannot be sent to at all.
+  error: string | null;
+  risks: RecipientRisk[];
+  // True until the on-chain lookups for a valid address are back.
+  checking: boolean;
+  tokenAccount: RecipientTokenAccount;
+}
+
+// Validates `recipient` and collects its risks for a send from `owner`.
+// Pass a null owner where sending to yourself is expected.
+export function useRecipientCheck(
+  recipient: string,
+  owner: string | null,
+  mint: MintInfo | null
+): RecipientCheck {
+  const { connection } = useConnection();
+  const tokenAccount = useRecipientTokenAccount(recipient, mint);
+  const [loaded, setLoaded] = useState<{
+    key: string;
+    facts: RecipientAccountFacts | null;
+  } | null>(null);
+
+  const parsed = parseRecipient(recipient);
+  const address = parsed.ok ? parsed.address : null;
+  const key = `${connection.rpcEndpoint}|${address ?? ""}`;
+
+  useEffect(() => {
+    if (!address) return;
+
+    let cancelled = false;
+    const pubkey = new PublicKey(address);
+    const load = async (): Promise<RecipientAccountFacts> => {
+      const { value: account } = await connection.getParsedAccountInfo(
+        pubkey,
+        "confirmed"
+      );
+      if (account) return { account, hasHistory: true };
+      const sigs = await connection.getSignaturesForAddress(pubkey, {
+        limit: 1,
+      });
+      return { account: null, hasHistory: sigs.length > 0 };
+    };
+
+    load()
+      .then((facts) => {
+        if (!cancelled) setLoaded({ key, facts });
+      })
+      .catch((err) => {
+        // Without the lookup only the address-level checks apply.
+        console.warn("Recipient lookup failed:", err);
+        if (!cancelled) setLoaded({ key, facts: null });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [connection, address, key]);
+
+  if (!parsed.ok) {
+    return { error: parsed.error, risks: [], checking: false, tokenAccount };
+  }
+
+  const mintAddress = mint?.address ?? null;
+  const current = loaded?.key === key ? loaded : null;
+  const risks = addressRisks(parsed.address, owner, mintAddress);
+  if (current?.facts) {
+    risks.push(...accountRisks(parsed.address, mintAddress, current.facts));
+  }
+  // Creating an associated account for a mint, program or token account
+  // is beside the point; those are already flagged.
+  if (
+    tokenAccount.exists === false &&
+    tokenAccount.rentLamports != null &&
+    !risks.some((r) => r.severity === "danger")
+  ) {
+    risks.push(missingTokenAccountRisk(tokenAccount.rentLamports));
+  }
+  return { error: null, risks, checking: current == null, tokenAccount };
+}
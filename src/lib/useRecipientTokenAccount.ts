@@ -0,0 +1,70 @@
+// src/lib/useRecipientTokenAccount.ts
+import { useEffect, useState } from "react";
+import { useConnection } from "@solana/wallet-adapter-react";
+import { PublicKey } from "@solana/web3.js";
+import {
+  associatedTokenAddress,
+  tokenAccountSize,
+  type MintInfo,
+} from "./tokens";
+
+export interface RecipientTokenAccount {
+  // Associated token account for the recipient, once the address parses.
+  address: string | null;
+  // Null while unknown (still checking, or the lookup failed).
+  exists: boolean | null;
+  // Rent the sender pays when the account has to be created.
+  rentLamports: number | null;
+}
+
+function deriveAccount(owner: string, mint: MintInfo | null): string | null {
+  if (!mint) return null;
+  try {
+    return associatedTokenAddress(new PublicKey(owner.trim()).toBase58(), mint);
+  } catch {
+    return null;
+  }
+}
+
+// Whether the recipient already holds an AKSOL token account, and what
+// creating one would cost.
+export function useRecipientTokenAccount(
+  recipient: string,
+  mint: MintInfo | null
+): RecipientTokenAccount {
+  const { connection } = useConnection();
+  const [result, setResult] = useState<{
+    address: string;
+    exists: boolean;
+    rentLamports: number;
+  } | null>(null);
+
+  const address = deriveAccount(recipient, mint);
+
+  useEffect(() => {
+    if (!address || !mint) return;
+
+    let cancelled = false;
+    Promise.all([
+      connection.getAccountInfo(new PublicKey(address), "confirmed"),
+      connection.getMinimumBalanceForRentExemption(tokenAccountSize(mint)),
+    ])
+      .then(([info, rentLamports]) => {
+        if (!cancelled) setResult({ address, exists: info != null, rentLamports });
+      })
+      .catch((err) => {
+        console.warn("Recipient token account lookup failed:", err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [connection, address, mint]);
+
+  const current = result?.address === address ? result : null;
+  return {
+    address,
+    exists: current?.exists ?? null,
+    rentLamports: current?.rentLamports ?? null,
+  };
+}
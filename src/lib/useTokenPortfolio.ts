@@ -0,0 +1,170 @@
+// src/lib/useTokenPortfolio.ts
+import { useCallback, useEffect, useState } from "react";
+import { useConnection } from "@solana/wallet-adapter-react";
+import { PublicKey, type ParsedAccountData } from "@solana/web3.js";
+import { useNetwork } from "../networkContext";
+import { useAksolConfig } from "./useAksolConfig";
+import {
+  fetchAllHoldings,
+  type TokenAccountBalance,
+  type TokenHolding,
+} from "./tokenBalances";
+import { fetchTokenMetadata, type TokenMetadata } from "./tokenMetadata";
+import { isTokenProgram } from "./programs";
+import { describeError } from "./errors";
+
+export interface PortfolioEntry {
+  holding: TokenHolding;
+  metadata: TokenMetadata | null;
+  // AKSOL itself, or a token the on-chain config routes tax into.
+  pinned: "aksol" | "tax" | null;
+}
+
+export type PortfolioState =
+  | { status: "idle" }
+  | { status: "loading" }
+  | {
+      status: "ready";
+      entries: PortfolioEntry[];
+      // Zero-balance accounts whose rent can be reclaimed.
+      emptyAccounts: TokenAccountBalance[];
+    }
+  | { status: "error"; error: string };
+
+// Mints the config's tax destinations hold: the mint of a destination that
+// is itself a token account, or those of the token accounts a destination
+// wallet owns. These are the "tax-destination tokens".
+async function taxDestinationMints(
+  connection: ReturnType<typeof useConnection>["connection"],
+  addresses: string[]
+): Promise<Set<string>> {
+  if (addresses.length === 0) return new Set();
+  const infos = await connection.getMultipleParsedAccounts(
+    addresses.map((a) => new PublicKey(a)),
+    { commitment: "confirmed" }
+  );
+  const mints = new Set<string>();
+  const wallets: PublicKey[] = [];
+  infos.value.forEach((info, i) => {
+    if (info && isTokenProgram(info.owner)) {
+      const data = info.data as ParsedAccountData;
+      if (data.parsed?.type === "account") mints.add(data.parsed.info.mint);
+    } else {
+      wallets.push(new PublicKey(addresses[i]));
+    }
+  });
+  const holdings = await Promise.all(
+    wallets.map((wallet) => fetchAllHoldings(connection, wallet))
+  );
+  for (const holding of holdings.flat()) {
+    if (holding.total > 0n) mints.add(holding.mint);
+  }
+  return mints;
+}
+
+function symbolOf(entry: PortfolioEntry): string {
+  return entry.metadata?.symbol || entry.holding.mint;
+}
+
+// Pinned tokens first (AKSOL, then tax-destination tokens), then the rest
+// with metadata before unnamed mints.
+function sortEntries(entries: PortfolioEntry[]): PortfolioEntry[] {
+  const rank = (e: PortfolioEntry) =>
+    e.pinned === "aksol" ? 0 : e.pinned === "tax" ? 1 : e.metadata ? 2 : 3;
+  return [...entries].sort(
+    (a, b) => rank(a) - rank(b) || symbolOf(a).localeCompare(symbolOf(b))
+  );
+}
+
+// Every SPL / Token-2022 holding of `owner` with metadata, refreshed on
+// demand (after closing accounts, for example).
+export function useTokenPortfolio(owner: PublicKey | null): {
+  state: PortfolioState;
+  reload: () => void;
+} {
+  const { connection } = useConnection();
+  const { networkConfig } = useNetwork();
+  const aksolConfig = useAksolConfig();
+  const [version, setVersion] = useState(0);
+  const [loaded, setLoaded] = useState<{
+    key: string;
+    state: PortfolioState;
+  } | null>(null);
+
+  const aksolMint = networkConfig.mint;
+  const taxWallets =
+    aksolConfig.status === "ready"
+      ? aksolConfig.config.destinations.map((d) => d.wallet).join(",")
+      : "";
+  const ownerKey = owner?.toBase58() ?? "";
+  const key = `${connection.rpcEndpoint}|${ownerKey}|${aksolMint ?? ""}|${taxWallets}|${version}`;
+
+  useEffect(() => {
+    if (!ownerKey) return;
+
+    let cancelled = false;
+    const load = async (): Promise<PortfolioState> => {
+      const ownerPubkey = new PublicKey(ownerKey);
+      const [holdings, taxMints] = await Promise.all([
+        fetchAllHoldings(connection, ownerPubkey),
+        taxDestinationMints(
+          connection,
+          taxWallets ? taxWallets.split(",") : []
+        ).catch(() => new Set<string>()),
+      ]);
+      const held = holdings.filter(
+        (h) => h.total > 0n || h.mint === aksolMint
+      );
+      const metadata = await fetchTokenMetadata(
+        connection,
+        held.map((h) => h.mint)
+      ).catch(() => new Map<string, TokenMetadata>());
+
+      const entries = held.map((holding) => ({
+        holding,
+        metadata: metadata.get(holding.mint) ?? null,
+        pinned:
+          holding.mint === aksolMint
+            ? ("aksol" as const)
+            : taxMints.has(holding.mint)
+            ? ("tax" as const)
+            : null,
+      }));
+      return {
+        status: "ready",
+        entries: sortEntries(entries),
+        emptyAccounts: holdings.flatMap((h) =>
+          h.accounts.filter((a) => a.amount === 0n)
+        ),
+      };
+    };
+
+    load()
+      .then((state) => {
+        if (!cancelled) setLoaded({ key, state });
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setLoaded({
+            key,
+            state: {
+              status: "error",
+              error: describeError(err, "Could not load token holdings."),
+            },
+          });
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [connection, ownerKey, aksolMint, taxWallets, key]);
+
+  const reload = useCallback(() => setVersion((v) => v + 1), []);
+
+  if (!owner) return { state: { status: "idle" }, reload };
+  return {
+    state: loaded?.key === key ? loaded.state : { status: "loading" },
+    reload,
+  };
+}
@@ -0,0 +1,440 @@
+// src/lib/useTransactionPipeline.ts
+import { useCallback, useRef, useState } from "react";
+import { useConnection, useWallet } from "@solana/wallet-adapter-react";
+import { SendTransactionError } from "@solana/web3.js";
+import {
+  SigningCancelledError,
+  decodeTransaction,
+  executeTransaction,
+  type AnyTransaction,
+  type ExecuteTransactionArgs,
+  type SignTransactionFn,
+  type TransactionSubmitter,
+  type TxProgress,
+} from "./solanaTx";
+import {
+  mergePreviews,
+  previewTransaction,
+  resolveAccountKeys,
+  toVersioned,
+  type TxPreview,
+} from "./txPreview";
+import { decodeInstructions, type DecodedInstruction } from "./txDecode";
+import {
+  PolicyViolationError,
+  checkTransactionPolicy,
+  type TransferIntent,
+} from "./txPolicy";
+import {
+  applyPriorityFee,
+  type PriorityFeeQuote,
+  type PriorityLevel,
+} from "./priorityFee";
+import { describeError } from "./errors";
+import { useRequestSignal } from "./request";
+import { recordPending, releasePending, settlePending } from "./pendingTx";
+import { useNetwork } from "../networkContext";
+
+export interface RunTransactionArgs {
+  // Unsigned transactions from the backend (base64), executed in order.
+  // Most requests need one; larger ones may be split across several.
+  transactions: string[];
+  lastValidBlockHeight?: number;
+  // Friendly names for addresses in the review (wallet, recipient, …).
+  labels?: Record<string, string>;
+  // What the user asked for. When set, the decoded instructions must match
+  // it or signing is refused with PolicyViolationError.
+  intent?: TransferIntent;
+  // Short description for the pending-transaction tracker ("Taxed send").
+  label?: string;
+  // Client-side priority fee preset. Without it the backend's compute-budget
+  // settings are used as-is.
+  priority?: PriorityLevel;
+}
+
+export interface BroadcastArgs {
+  // Fully signed transaction, base64.
+  base64: string;
+  lastValidBlockHeight?: number;
+  label?: string;
+}
+
+// `warnings` are policy findings that do not block signing on their own.
+interface ReviewDetails {
+  warnings: string[];
+  priorityFee: PriorityFeeQuote | null;
+}
+
+// Pass-through for transactions that are already signed.
+const alreadySigned: SignTransactionFn = async (tx) => tx;
+
+// Thrown by the "send" submitter when the wallet cannot sign-and-send, so
+// the pipeline can retry with signTransaction.
+class SendUnsupportedError extends Error {
+  constructor() {
+    super("Wallet does not support sending transactions.");
+    this.name = "SendUnsupportedError";
+  }
+}
+
+// Wallets word a missing signAndSendTransaction differently.
+function isUnsupportedError(err: unknown): boolean {
+  const message = err instanceof Error ? err.message : String(err);
+  return /not supported|unsupported|not implemented|method not found/i.test(
+    message
+  );
+}
+
+// One fee line for the review when a request spans several transactions.
+function combineQuotes(quotes: PriorityFeeQuote[]): PriorityFeeQuote | null {
+  if (quotes.length <= 1) return quotes[0] ?? null;
+  return {
+    level: quotes[0].level,
+    microLamports: Math.max(...quotes.map((q) => q.microLamports)),
+    computeUnitLimit: null,
+    priorityLamports: quotes.reduce((acc, q) => acc + q.priorityLamports, 0),
+    adjusted: quotes.some((q) => q.adjusted),
+    note: `Across ${quotes.length} transactions.`,
+  };
+}
+
+export type ReviewState = ReviewDetails &
+  (
+    | { status: "simulating" }
+    | { status: "ready"; preview: TxPreview }
+    | { status: "unavailable"; error: string }
+  );
+
+// Card-facing wrapper around executeTransaction: binds the active connection
+// and wallet, pauses for the pre-sign review, tracks the current phase for
+// rendering, and stops polling when the card unmounts or starts another
+// transaction. Works with whatever the wallet offers: sendTransaction is
+// preferred for single transactions, signAllTransactions for batches, and
+// signTransaction covers the rest.
+export function useTransactionPipeline() {
+  const { connection } = useConnection();
+  const { connected, signTransaction, signAllTransactions, sendTransaction } =
+    useWallet();
+  const { networkConfig } = useNetwork();
+  const nextSignal = useRequestSignal();
+  const [progress, setProgress] = useState<TxProgress | null>(null);
+  const [review, setReview] = useState<ReviewState | null>(null);
+  const decisionRef = useRef<((approved: boolean) => void) | null>(null);
+
+  // Decodes the instructions and checks them against the intent (and, where
+  // the amounts are only known after execution, against the simulation).
+  // Anything that cannot be decoded or verified refuses signing. A batch is
+  // checked as a whole, so the transfers may be spread across its
+  // transactions.
+  const checkPolicy = useCallback(
+    async (
+      txs: AnyTransaction[],
+      intent: TransferIntent,
+      preview: TxPreview | null
+    ) => {
+      const instructions: DecodedInstruction[] = [];
+      let feePayer = "";
+      for (const tx of txs) {
+        const versioned = toVersioned(tx);
+        const keys = await resolveAccountKeys(connection, versioned);
+        feePayer ||= keys.get(0)!.toBase58();
+        instructions.push(
+          ...decodeInstructions(versioned, keys, networkConfig.programId)
+        );
+      }
+      const result = checkTransactionPolicy(
+        instructions,
+        intent,
+        feePayer,
+        preview
+      );
+      if (result.violations.length > 0) {
+        throw new PolicyViolationError(result.violations);
+      }
+      return result.warnings;
+    },
+    [connection, networkConfig.programId]
+  );
+
+  const awaitReview = useCallback(
+    async (
+      txs: AnyTransaction[],
+      labels: Record<string, string>,
+      intent: TransferIntent | undefined,
+      priorityFee: PriorityFeeQuote | null,
+      feeWarnings: string[]
+    ) => {
+      setReview({ status: "simulating", warnings: [], priorityFee });
+      let preview: TxPreview | null = null;
+      let previewError: string | null = null;
+      try {
+        const previews = await Promise.all(
+          txs.map((tx) => previewTransaction(connection, tx, labels))
+        );
+        preview = previews.length === 1 ? previews[0] : mergePreviews(previews);
+      } catch (err) {
+        console.error("Transaction preview failed:", err);
+        previewError = describeError(err, "Simulation failed.");
+      }
+
+      let warnings = feeWarnings;
+      try {
+        if (intent) {
+          warnings = [
+            ...(await checkPolicy(txs, intent, preview)),
+            ...feeWarnings,
+          ];
+        }
+      } catch (err) {
+        setReview(null);
+        throw err;
+      }
+      if (txs.length > 1) {
+        warnings = [
+          ...warnings,
+          `This request is split into ${txs.length} transactions, sent one after another. Each was simulated on its own, so the balance changes are combined estimates.`,
+        ];
+      }
+      setReview(
+        preview
+          ? { status: "ready", preview, warnings, priorityFee }
+          : {
+              status: "unavailable",
+              error: previewError ?? "Simulation failed.",
+              warnings,
+              priorityFee,
+            }
+      );
+
+      const approved = await new Promise<boolean>((resolve) => {
+        decisionRef.current = resolve;
+      });
+      decisionRef.current = null;
+      setReview(null);
+      if (!approved) {
+        throw new SigningCancelledError();
+      }
+    },
+    [connection, checkPolicy]
+  );
+
+  // executeTransaction plus the pending-transaction store: the signature is
+  // recorded before broadcast and settled (or handed to the watcher) after.
+  // Steps of one batch share the run's signal, so a later step does not
+  // cancel an earlier one's finalization watch.
+  const executeTracked = useCallback(
+    async (
+      args: Omit<ExecuteTransactionArgs, "onSigned" | "onProgress">,
+      label: string,
+      batch?: { step: number; steps: number }
+    ) => {
+      let sentSignature: string | null = null;
+      const onProgress = (next: TxProgress) => {
+        setProgress({ ...next, ...batch });
+        if (!next.signature) return;
+        if (next.phase === "confirmed" || next.phase === "finalized") {
+          settlePending(next.signature, "confirmed");
+        } else if (next.phase === "failed" || next.phase === "expired") {
+          settlePending(next.signature, next.phase, next.error ?? null);
+        }
+      };
+
+      try {
+        return await executeTransaction({
+          ...args,
+          onSigned: (signature, blockhash) => {
+            sentSignature = signature;
+            recordPending({
+              signature,
+              network: networkConfig.name,
+              label,
+              blockhash,
+              lastValidBlockHeight: args.lastValidBlockHeight ?? null,
+              sentAt: Date.now(),
+            });
+          },
+          onProgress,
+        });
+      } catch (err) {
+        if (sentSignature) {
+          // Preflight rejected it, so it never left. Anything else (card
+          // unmounted, RPC hiccup) may still land: let the watcher decide.
+          if (err instanceof SendTransactionError) {
+            settlePending(sentSignature, "failed", err.message);
+          } else {
+            releasePending(sentSignature);
+          }
+        }
+        throw err;
+      }
+    },
+    [networkConfig.name]
+  );
+
+  // Applies the priority preset to each transaction. Congestion pricing is
+  // best-effort; on failure the backend's settings are kept.
+  const prepareFees = useCallback(
+    async (txs: AnyTransaction[], priority: PriorityLevel) => {
+      setReview({ status: "simulating", warnings: [], priorityFee: null });
+      const prepared: AnyTransaction[] = [];
+      const quotes: PriorityFeeQuote[] = [];
+      const warnings: string[] = [];
+      for (const tx of txs) {
+        try {
+          const adjusted = await applyPriorityFee(connection, tx, priority);
+          prepared.push(adjusted.transaction);
+          quotes.push(adjusted.quote);
+        } catch (err) {
+          console.warn("Priority fee estimate failed:", err);
+          prepared.push(tx);
+        }
+      }
+      if (quotes.length < txs.length) {
+        warnings.push(
+          "Could not estimate a priority fee; the transaction keeps the backend's fee settings."
+        );
+      }
+      return { prepared, priorityFee: combineQuotes(quotes), warnings };
+    },
+    [connection]
+  );
+
+  const run = useCallback(
+    async ({
+      transactions,
+      lastValidBlockHeight,
+      labels = {},
+      intent,
+      priority,
+      label = "Transaction",
+    }: RunTransactionArgs): Promise<string[]> => {
+      if (!connected) {
+        throw new Error("Connect a wallet first.");
+      }
+      if (transactions.length === 0) {
+        throw new Error("The backend did not return a transaction.");
+      }
+      const signal = nextSignal();
+
+      let prepared = transactions.map(decodeTransaction);
+      let priorityFee: PriorityFeeQuote | null = null;
+      let feeWarnings: string[] = [];
+      if (priority) {
+        ({ prepared, priorityFee, warnings: feeWarnings } = await prepareFees(
+          prepared,
+          priority
+        ));
+      }
+
+      await awaitReview(prepared, labels, intent, priorityFee, feeWarnings);
+
+      const sendSubmitter: TransactionSubmitter = {
+        kind: "send",
+        sendTransaction: async (tx) => {
+          try {
+            return await sendTransaction(tx, connection);
+          } catch (err) {
+            if (signTransaction && isUnsupportedError(err)) {
+              throw new SendUnsupportedError();
+            }
+            throw err;
+          }
+        },
+      };
+
+      if (prepared.length === 1) {
+        const args = {
+          connection,
+          transaction: prepared[0],
+          lastValidBlockHeight,
+          signal,
+        };
+        try {
+          return [
+            await executeTracked({ ...args, submitter: sendSubmitter }, label),
+          ];
+        } catch (err) {
+          if (!(err instanceof SendUnsupportedError) || !signTransaction) {
+            throw err;
+          }
+          return [
+            await executeTracked(
+              { ...args, submitter: { kind: "sign", signTransaction } },
+              label
+            ),
+          ];
+        }
+      }
+
+      // Batches: one approval for everything when the wallet allows it,
+      // otherwise one prompt per transaction. Each is confirmed before the
+      // next goes out, so a later step never lands without its predecessor.
+      let submitter: TransactionSubmitter = sendSubmitter;
+      let toSend = prepared;
+      if (signAllTransactions) {
+        setProgress({ phase: "awaiting-signature" });
+        toSend = await signAllTransactions(prepared);
+        submitter = { kind: "sign", signTransaction: alreadySigned };
+      } else if (signTransaction) {
+        submitter = { kind: "sign", signTransaction };
+      }
+
+      const steps = toSend.length;
+      const signatures: string[] = [];
+      for (let i = 0; i < steps; i++) {
+        signatures.push(
+          await executeTracked(
+            {
+              connection,
+              transaction: toSend[i],
+              submitter,
+              lastValidBlockHeight,
+              signal,
+            },
+            `${label} (${i + 1}/${steps})`,
+            { step: i + 1, steps }
+          )
+        );
+      }
+      return signatures;
+    },
+    [
+      connection,
+      connected,
+      signTransaction,
+      signAllTransactions,
+      sendTransaction,
+      prepareFees,
+      executeTracked,
+      awaitReview,
+      nextSignal,
+    ]
+  );
+
+  // Broadcasts a transaction that was signed elsewhere (offline / multisig)
+  // and already verified by the caller; no review or wallet involved.
+  const broadcastSigned = useCallback(
+    ({ base64, lastValidBlockHeight, label = "Transaction" }: BroadcastArgs) =>
+      executeTracked(
+        {
+          connection,
+          transaction: decodeTransaction(base64),
+          lastValidBlockHeight,
+          submitter: { kind: "sign", signTransaction: alreadySigned },
+          signal: nextSignal(),
+        },
+        label
+      ),
+    [connection, executeTracked, nextSignal]
+  );
+
+  const approve = useCallback(() => decisionRef.current?.(true), []);
+  const cancel = useCallback(() => decisionRef.current?.(false), []);
+
+  const reset = useCallback(() => {
+    decisionRef.current?.(false);
+    setProgress(null);
+  }, []);
+
+  return { progress, review, run, broadcastSigned, approve, cancel, reset };
+}
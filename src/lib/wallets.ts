@@ -0,0 +1,118 @@
+// src/lib/wallets.ts
+//
+// Wallet adapters for the active network. Wallets that implement the Wallet
+// Standard (Phantom, Backpack, Solflare's extension and most newer ones) are
+// detected by WalletProvider without being listed here; the explicit
+// adapters cover wallets and mobile / QR flows that have no standard
+// extension.
+import {
+  WalletAdapterNetwork,
+  type Adapter,
+} from "@solana/wallet-adapter-base";
+import {
+  CoinbaseWalletAdapter,
+  PhantomWalletAdapter,
+  SolflareWalletAdapter,
+  WalletConnectWalletAdapter,
+} from "@solana/wallet-adapter-wallets";
+import type { AksolNetworkConfig } from "../networkConfig";
+
+// WalletProvider remembers the last selected wallet under this key and
+// reconnects to it on load.
+export const WALLET_STORAGE_KEY = "aksol.walletName";
+
+const WALLETCONNECT_PROJECT_ID: string | undefined = import.meta.env
+  .VITE_WALLETCONNECT_PROJECT_ID;
+
+type PublicNetwork = WalletAdapterNetwork.Mainnet | WalletAdapterNetwork.Devnet;
+
+function adapterNetwork(config: AksolNetworkConfig): PublicNetwork | null {
+  switch (config.name) {
+    case "mainnet-beta":
+      return WalletAdapterNetwork.Mainnet;
+    case "devnet":
+      return WalletAdapterNetwork.Devnet;
+    default:
+      return null;
+  }
+}
+
+// Instances are reused across network switches so a connected wallet is not
+// left behind as a second, orphaned adapter. Solflare's web wallet and
+// WalletConnect sessions are bound to one cluster, so those get an instance
+// per network; instances that drop out of the list are disconnected by
+// disconnectDroppedAdapters.
+const adapterCache = new Map<string, Adapter>();
+
+function cached(key: string, create: () => Adapter): Adapter {
+  let adapter = adapterCache.get(key);
+  if (!adapter) {
+    adapter = create();
+    adapterCache.set(key, adapter);
+  }
+  return adapter;
+}
+
+function createAdapter(
+  id: string,
+  network: PublicNetwork | null
+): Adapter | null {
+  switch (id) {
+    case "phantom":
+      return cached(id, () => new PhantomWalletAdapter());
+    case "solflare":
+      // The network steers Solflare's web wallet fallback.
+      return cached(`${id}:${network ?? "default"}`, () =>
+        network
+          ? new SolflareWalletAdapter({ network })
+          : new SolflareWalletAdapter()
+      );
+    case "coinbase":
+      return cached(id, () => new CoinbaseWalletAdapter());
+    case "walletconnect":
+      // Needs a WalletConnect Cloud project id and a public cluster.
+      if (!WALLETCONNECT_PROJECT_ID || !network) return null;
+      return cached(
+        `${id}:${network}`,
+        () =>
+          new WalletConnectWalletAdapter({
+            network,
+            options: {
+              projectId: WALLETCONNECT_PROJECT_ID,
+              metadata: {
+                name: "AKSOL",
+                description: "AKSOL taxed sends and 0% route purchases",
+                url: window.location.origin,
+                icons: [`${window.location.origin}/aksol_icon_256.png`],
+              },
+            },
+          })
+      );
+    default:
+      return null;
+  }
+}
+
+export function createWalletAdapters(config: AksolNetworkConfig): Adapter[] {
+  const network = adapterNetwork(config);
+  const adapters: Adapter[] = [];
+  for (const id of config.wallets) {
+    const adapter = createAdapter(id, network);
+    if (adapter) {
+      adapters.push(adapter);
+    } else if (id !== "walletconnect") {
+      console.warn(`Unknown wallet "${id}" in the ${config.label} wallet list.`);
+    }
+  }
+  return adapters;
+}
+
+// Disconnects cached adapters that are not in `current`, e.g. the other
+// network's WalletConnect session after a switch.
+export function disconnectDroppedAdapters(current: Adapter[]): void {
+  for (const adapter of adapterCache.values()) {
+    if (adapter.connected && !current.includes(adapter)) {
+      void adapter.disconnect();
+    }
+  }
+}
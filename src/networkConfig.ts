@@ -1,32 +1,94 @@
 // src/networkConfig.ts
+import { EXPLORER_BASE_URL } from "./config";
 
-export type NetworkName = "devnet" | "mainnet-beta";
+export type NetworkName = "devnet" | "mainnet-beta" | "localnet";
 
 export interface AksolNetworkConfig {
   name: NetworkName;
   label: string;
   programId: string;
   mint: string;
+  // AKSOL config account; when set, its tax rate and wallets take precedence
+  // over `taxBps`.
   configPda?: string;
-  rpcUrl: string;
+  // Protocol tax on taxed sends, in basis points. Used to check what the
+  // backend builds against what the user asked for.
+  taxBps: number;
+  // Ordered by preference; the RPC pool fails over down this list.
+  rpcUrls: string[];
+  // Wallets the history view recognises: the 0% route's SOL destination
+  // and the storefront's fulfillment wallet.
+  zeroRouteWallet?: string;
+  storefrontWallet?: string;
+  // Explicit wallet adapters offered on this network, by id (see
+  // lib/wallets.ts). Wallet Standard wallets are detected on top of these.
+  wallets: string[];
 }
 
 const {
   VITE_AKSOL_DEVNET_PROGRAM_ID,
   VITE_AKSOL_DEVNET_MINT,
+  VITE_AKSOL_DEVNET_CONFIG,
   VITE_AKSOL_MAINNET_PROGRAM_ID,
   VITE_AKSOL_MAINNET_MINT,
   VITE_AKSOL_MAINNET_CONFIG,
   VITE_SOLANA_DEVNET_RPC,
   VITE_SOLANA_MAINNET_RPC,
+  VITE_AKSOL_LOCALNET_PROGRAM_ID,
+  VITE_AKSOL_LOCALNET_MINT,
+  VITE_AKSOL_LOCALNET_CONFIG,
+  VITE_SOLANA_LOCALNET_RPC,
+  VITE_AKSOL_TAX_BPS,
+  VITE_AKSOL_DEVNET_ZERO_ROUTE_WALLET,
+  VITE_AKSOL_DEVNET_STOREFRONT_WALLET,
+  VITE_AKSOL_MAINNET_ZERO_ROUTE_WALLET,
+  VITE_AKSOL_MAINNET_STOREFRONT_WALLET,
+  VITE_AKSOL_LOCALNET_ZERO_ROUTE_WALLET,
+  VITE_AKSOL_LOCALNET_STOREFRONT_WALLET,
+  VITE_AKSOL_DEVNET_WALLETS,
+  VITE_AKSOL_MAINNET_WALLETS,
+  VITE_AKSOL_LOCALNET_WALLETS,
 } = import.meta.env;
 
+const TAX_BPS = Number(VITE_AKSOL_TAX_BPS ?? 300);
+
+// VITE_SOLANA_*_RPC accepts a single URL or a comma-separated list.
+function parseRpcList(value: string | undefined, fallback: string): string[] {
+  const urls = (value ?? "")
+    .split(",")
+    .map((url) => url.trim())
+    .filter(Boolean);
+  return urls.length > 0 ? urls : [fallback];
+}
+
+// VITE_AKSOL_*_WALLETS: comma-separated wallet ids, e.g. "phantom,solflare".
+function parseWalletList(
+  value: string | undefined,
+  fallback: string[]
+): string[] {
+  const ids = (value ?? "")
+    .split(",")
+    .map((id) => id.trim().toLowerCase())
+    .filter(Boolean);
+  return ids.length > 0 ? ids : fallback;
+}
+
+const PUBLIC_CLUSTER_WALLETS = ["phantom", "solflare", "coinbase", "walletconnect"];
+
 export const DEVNET_CONFIG: AksolNetworkConfig = {
   name: "devnet",
   label: "Devnet (test)",
   programId: VITE_AKSOL_DEVNET_PROGRAM_ID,
   mint: VITE_AKSOL_DEVNET_MINT,
-  rpcUrl: VITE_SOLANA_DEVNET_RPC ?? "https://api.devnet.solana.com",
+  configPda: VITE_AKSOL_DEVNET_CONFIG,
+  taxBps: TAX_BPS,
+  rpcUrls: parseRpcList(
+    VITE_SOLANA_DEVNET_RPC,
+    "https://api.devnet.solana.com"
+  ),
+  zeroRouteWallet: VITE_AKSOL_DEVNET_ZERO_ROUTE_WALLET,
+  storefrontWallet: VITE_AKSOL_DEVNET_STOREFRONT_WALLET,
+  wallets: parseWalletList(VITE_AKSOL_DEVNET_WALLETS, PUBLIC_CLUSTER_WALLETS),
 };
 
 export const MAINNET_CONFIG: AksolNetworkConfig = {
@@ -35,10 +97,106 @@ export const MAINNET_CONFIG: AksolNetworkConfig = {
   programId: VITE_AKSOL_MAINNET_PROGRAM_ID,
   mint: VITE_AKSOL_MAINNET_MINT,
   configPda: VITE_AKSOL_MAINNET_CONFIG,
-  rpcUrl: VITE_SOLANA_MAINNET_RPC ?? "https://api.mainnet-beta.solana.com",
+  taxBps: TAX_BPS,
+  rpcUrls: parseRpcList(
+    VITE_SOLANA_MAINNET_RPC,
+    "https://api.mainnet-beta.solana.com"
+  ),
+  zeroRouteWallet: VITE_AKSOL_MAINNET_ZERO_ROUTE_WALLET,
+  storefrontWallet: VITE_AKSOL_MAINNET_STOREFRONT_WALLET,
+  wallets: parseWalletList(VITE_AKSOL_MAINNET_WALLETS, PUBLIC_CLUSTER_WALLETS),
+};
+
+// Local solana-test-validator (or any custom RPC). Env values are the
+// defaults; the dev-view form can override them per browser.
+export const LOCALNET_CONFIG: AksolNetworkConfig = {
+  name: "localnet",
+  label: "Localnet (test validator)",
+  programId: VITE_AKSOL_LOCALNET_PROGRAM_ID,
+  mint: VITE_AKSOL_LOCALNET_MINT,
+  configPda: VITE_AKSOL_LOCALNET_CONFIG,
+  taxBps: TAX_BPS,
+  rpcUrls: parseRpcList(VITE_SOLANA_LOCALNET_RPC, "http://127.0.0.1:8899"),
+  zeroRouteWallet: VITE_AKSOL_LOCALNET_ZERO_ROUTE_WALLET,
+  storefrontWallet: VITE_AKSOL_LOCALNET_STOREFRONT_WALLET,
+  // Browser-extension wallets only: WalletConnect and Coinbase's mobile
+  // flow cannot reach a local validator.
+  wallets: parseWalletList(VITE_AKSOL_LOCALNET_WALLETS, ["phantom", "solflare"]),
 };
 
 export const NETWORKS: Record<NetworkName, AksolNetworkConfig> = {
   devnet: DEVNET_CONFIG,
   "mainnet-beta": MAINNET_CONFIG,
+  localnet: LOCALNET_CONFIG,
 };
+
+export type LocalnetOverrides = Partial<
+  Pick<AksolNetworkConfig, "programId" | "mint" | "configPda" | "rpcUrls">
+>;
+
+const LOCALNET_OVERRIDES_KEY = "aksol.localnetOverrides";
+
+export function loadLocalnetOverrides(): LocalnetOverrides {
+  try {
+    const raw = window.localStorage.getItem(LOCALNET_OVERRIDES_KEY);
+    return raw ? (JSON.parse(raw) as LocalnetOverrides) : {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveLocalnetOverrides(overrides: LocalnetOverrides): void {
+  window.localStorage.setItem(
+    LOCALNET_OVERRIDES_KEY,
+    JSON.stringify(overrides)
+  );
+}
+
+// Applies the dev-view overrides on top of the env-driven config. Empty
+// form fields fall back to the env value.
+export function resolveNetworkConfig(
+  name: NetworkName,
+  localnetOverrides: LocalnetOverrides
+): AksolNetworkConfig {
+  const base = NETWORKS[name];
+  if (name !== "localnet") return base;
+
+  const rpcUrls = localnetOverrides.rpcUrls?.filter(Boolean) ?? [];
+  return {
+    ...base,
+    programId: localnetOverrides.programId || base.programId,
+    mint: localnetOverrides.mint || base.mint,
+    configPda: localnetOverrides.configPda || base.configPda,
+    rpcUrls: rpcUrls.length > 0 ? rpcUrls : base.rpcUrls,
+  };
+}
+
+function explorerClusterQuery(config: AksolNetworkConfig): string {
+  switch (config.name) {
+    case "mainnet-beta":
+      return "";
+    case "localnet":
+      // Explorer talks to the local validator directly.
+      return `?cluster=custom&customUrl=${encodeURIComponent(
+        config.rpcUrls[0]
+      )}`;
+    default:
+      return `?cluster=${config.name}`;
+  }
+}
+
+export function explorerTxUrl(
+  config: AksolNetworkConfig,
+  signature: string
+): string {
+  return `${EXPLORER_BASE_URL}/tx/${signature}${explorerClusterQuery(config)}`;
+}
+
+export function explorerAddressUrl(
+  config: AksolNetworkConfig,
+  address: string
+): string {
+  return `${EXPLORER_BASE_URL}/address/${address}${explorerClusterQuery(
+    config
+  )}`;
+}
@@ -0,0 +1,30 @@
+// src/networkContext.ts
+import { createContext, useContext } from "react";
+import type {
+  AksolNetworkConfig,
+  LocalnetOverrides,
+  NetworkName,
+} from "./networkConfig";
+import type { RpcPool } from "./lib/rpcPool";
+
+export interface NetworkContextState {
+  networkName: NetworkName;
+  networkConfig: AksolNetworkConfig;
+  isMainnet: boolean;
+  rpcPool: RpcPool;
+  setNetworkName: (name: NetworkName) => void;
+  localnetOverrides: LocalnetOverrides;
+  setLocalnetOverrides: (overrides: LocalnetOverrides) => void;
+}
+
+export const NetworkContext = createContext<NetworkContextState | null>(null);
+
+// Active cluster for every card. The ConnectionProvider endpoint is rebuilt
+// from the same config, so `useConnection()` always matches this value.
+export function useNetwork(): NetworkContextState {
+  const ctx = useContext(NetworkContext);
+  if (!ctx) {
+    throw new Error("useNetwork must be used inside WalletContextProvider");
+  }
+  return ctx;
+}